@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RawAllowlist } from "~/lib/allowlist";
+import { isAllowlistStoreConfigured, readAllowlist } from "~/lib/allowlist-store";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const contractAddress = searchParams.get("contractAddress");
+  const chainId = Number(searchParams.get("chainId"));
+  const address = searchParams.get("address");
+  const dropId = searchParams.get("instanceId") || searchParams.get("tokenId") || undefined;
+
+  if (!contractAddress || !chainId || !address) {
+    return NextResponse.json(
+      { error: "contractAddress, chainId and address are required" },
+      { status: 400 },
+    );
+  }
+
+  if (!(await isAllowlistStoreConfigured())) {
+    return NextResponse.json({ error: "Allowlists are not configured" }, { status: 503 });
+  }
+
+  try {
+    // Prefer a drop-specific allowlist, fall back to the contract-wide one
+    let allowlist: RawAllowlist | null = null;
+    if (dropId) {
+      allowlist = await readAllowlist(chainId, contractAddress, dropId);
+    }
+    if (!allowlist) {
+      allowlist = await readAllowlist(chainId, contractAddress);
+    }
+
+    const normalized = address.toLowerCase();
+    const key = allowlist
+      ? Object.keys(allowlist).find((k) => k.toLowerCase() === normalized)
+      : undefined;
+
+    if (!allowlist || !key) {
+      return NextResponse.json({ entry: null }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry: allowlist[key] }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 },
+    );
+  }
+}
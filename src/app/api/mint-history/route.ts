@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress, isAddressEqual, isHash, isHex, type Address, type Hex } from "viem";
+import { base } from "viem/chains";
+import { getPublicClient, SUPPORTED_CHAINS } from "~/lib/chains";
+import {
+  getMintHistorySyncMessage,
+  MINT_HISTORY_SYNC_TTL_MS,
+  type MintRecord,
+} from "~/lib/mint-history";
+import {
+  isMintHistoryStoreConfigured,
+  readStoredMintHistory,
+  writeStoredMintHistory,
+} from "~/lib/mint-history-store";
+
+// Local history keeps 50 settled records plus any pending ones
+const MAX_RECORDS = 100;
+
+const RECORD_STATUSES = ["pending", "success", "failed", "replaced"];
+
+function isMintRecord(value: unknown, owner: Address): value is MintRecord {
+  const record = value as Partial<MintRecord> | null;
+  return (
+    !!record &&
+    typeof record.txHash === "string" &&
+    isHash(record.txHash) &&
+    SUPPORTED_CHAINS.some((c) => c.id === record.chainId) &&
+    typeof record.owner === "string" &&
+    isAddress(record.owner) &&
+    isAddressEqual(record.owner, owner) &&
+    typeof record.recipient === "string" &&
+    isAddress(record.recipient) &&
+    typeof record.contractAddress === "string" &&
+    isAddress(record.contractAddress) &&
+    typeof record.quantity === "number" &&
+    typeof record.submittedAt === "number" &&
+    RECORD_STATUSES.includes(record.status as string)
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const owner = new URL(request.url).searchParams.get("owner");
+  if (!owner || !isAddress(owner)) {
+    return NextResponse.json({ error: "owner is required" }, { status: 400 });
+  }
+  if (!(await isMintHistoryStoreConfigured())) {
+    return NextResponse.json({ error: "Mint history sync is not configured" }, { status: 503 });
+  }
+
+  try {
+    return NextResponse.json({ records: await readStoredMintHistory(owner) }, { status: 200 });
+  } catch (error) {
+    console.error("Mint history read failed:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/**
+ * Store a wallet's history. The body carries a signature of getMintHistorySyncMessage by the
+ * owner (smart wallets are checked via ERC-1271/6492 on Base), so nobody can write another
+ * wallet's history.
+ */
+export async function POST(request: NextRequest) {
+  let body: { owner?: string; records?: unknown; expiresAt?: number; signature?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { owner, records, expiresAt, signature } = body;
+  if (!owner || !isAddress(owner)) {
+    return NextResponse.json({ error: "owner is required" }, { status: 400 });
+  }
+  if (!Array.isArray(records) || records.length > MAX_RECORDS || !records.every((r) => isMintRecord(r, owner))) {
+    return NextResponse.json({ error: "Invalid records" }, { status: 400 });
+  }
+  if (
+    typeof expiresAt !== "number" ||
+    expiresAt < Date.now() ||
+    expiresAt > Date.now() + MINT_HISTORY_SYNC_TTL_MS ||
+    typeof signature !== "string" ||
+    !isHex(signature)
+  ) {
+    return NextResponse.json({ error: "Missing or expired signature" }, { status: 401 });
+  }
+  if (!(await isMintHistoryStoreConfigured())) {
+    return NextResponse.json({ error: "Mint history sync is not configured" }, { status: 503 });
+  }
+
+  try {
+    const valid = await getPublicClient(base.id).verifyMessage({
+      address: owner,
+      message: getMintHistorySyncMessage(owner, expiresAt),
+      signature: signature as Hex,
+    });
+    if (!valid) {
+      return NextResponse.json({ error: "Signature does not match owner" }, { status: 401 });
+    }
+
+    await writeStoredMintHistory(owner, records);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Mint history write failed:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
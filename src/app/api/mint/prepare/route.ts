@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import type { AllowlistEntry, MintParams } from "~/lib/types";
+import { parseAllowlistEntry, type RawAllowlistEntry } from "~/lib/allowlist";
+import { SUPPORTED_CHAINS } from "~/lib/chains";
+import { registerAppMintAdapters } from "~/lib/mint-adapters";
+import { prepareMint } from "~/lib/mint-prepare";
+import { parseWithBigInt, stringifyWithBigInt } from "~/lib/utils";
+
+// Same adapters as the browser, so server and client detection agree
+registerAppMintAdapters();
+
+const DECIMAL_ID = /^\d+$/;
+
+/**
+ * Bigints in the response are encoded as { __bigint: "<decimal>" }
+ * (see parseWithBigInt / prepareMintViaApi)
+ */
+function jsonResponse(body: unknown, status: number) {
+  return new NextResponse(stringifyWithBigInt(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Check the request shape before any RPC work. Returns the first problem, or null.
+ */
+function getParamsError(params: MintParams): string | null {
+  if (!params?.contractAddress || !isAddress(params.contractAddress) || !params.chainId) {
+    return "contractAddress and chainId are required";
+  }
+  if (!SUPPORTED_CHAINS.some((c) => c.id === Number(params.chainId))) {
+    return `Unsupported chainId ${params.chainId}`;
+  }
+  if (params.amount !== undefined && params.amount !== null) {
+    const amount = Number(params.amount);
+    if (!Number.isSafeInteger(amount) || amount < 1) {
+      return "amount must be a positive integer";
+    }
+  }
+  if (params.instanceId !== undefined && !DECIMAL_ID.test(String(params.instanceId))) {
+    return "instanceId must be a decimal integer";
+  }
+  if (params.tokenId !== undefined && !DECIMAL_ID.test(String(params.tokenId))) {
+    return "tokenId must be a decimal integer";
+  }
+  if (params.recipient && !isAddress(params.recipient)) {
+    return "Invalid recipient address";
+  }
+  if (params.account && !isAddress(params.account)) {
+    return "Invalid account address";
+  }
+  if (params.mintReferral && !isAddress(params.mintReferral)) {
+    return "Invalid mintReferral address";
+  }
+  return null;
+}
+
+/**
+ * Detection, validation, pricing, the minter's allowance, simulation and gas all run here on the
+ * server RPC. The client only re-simulates right before sending, against the wallet's own state.
+ */
+export async function POST(request: NextRequest) {
+  let params: MintParams;
+  try {
+    params = parseWithBigInt<MintParams>(await request.text());
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const paramsError = getParamsError(params);
+  if (paramsError) {
+    return NextResponse.json({ error: paramsError }, { status: 400 });
+  }
+
+  // Plain JSON callers send allowlist limits as decimal strings
+  let allowlistEntry: AllowlistEntry | undefined;
+  try {
+    allowlistEntry = params.allowlistEntry
+      ? parseAllowlistEntry(params.allowlistEntry as unknown as RawAllowlistEntry)
+      : undefined;
+  } catch {
+    return NextResponse.json({ error: "Invalid allowlistEntry" }, { status: 400 });
+  }
+
+  try {
+    const preparation = await prepareMint({
+      ...params,
+      chainId: Number(params.chainId),
+      amount: params.amount ? Number(params.amount) : undefined,
+      allowlistEntry,
+    });
+
+    return jsonResponse(preparation, preparation.isValid ? 200 : 422);
+  } catch (error) {
+    console.error("Mint preparation failed:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare mint" },
+      { status: 500 },
+    );
+  }
+}
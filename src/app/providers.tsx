@@ -5,6 +5,9 @@ import { useEffect, useState } from "react";
 import posthog from "posthog-js";
 import { PostHogProvider as PHProvider } from "posthog-js/react";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { registerAppMintAdapters } from "~/lib/mint-adapters";
+
+registerAppMintAdapters();
 
 const WagmiProvider = dynamic(
   () => import("~/components/providers/WagmiProvider"),
@@ -0,0 +1,60 @@
+"use client";
+
+import { DaimoPayButton } from "@daimo/pay";
+import { baseUSDC } from "@daimo/contract";
+import type { Address, Hex } from "viem";
+import { Button } from "~/components/ui/button";
+import type { CrossChainMintCall } from "~/lib/cross-chain-mint";
+
+/**
+ * Pays for a mint from any token/chain through Daimo Pay's contract-call mode.
+ * Daimo bridges the payment and calls the mint contract on the target chain.
+ */
+export function DaimoPayMintButton({
+  text = "Pay with any token/chain",
+  call,
+  refundAddress,
+  disabled,
+  onPaymentStarted,
+  onPaymentCompleted,
+  onPaymentBounced,
+}: {
+  text?: string;
+  call: CrossChainMintCall;
+  /** Where Daimo refunds the payment if the mint call reverts */
+  refundAddress: Address;
+  disabled?: boolean;
+  onPaymentStarted?: () => void;
+  onPaymentCompleted?: (txHash: Hex) => void;
+  onPaymentBounced?: () => void;
+}) {
+  return (
+    <DaimoPayButton.Custom
+      appId={process.env.NEXT_PUBLIC_DAIMO_PAY_KEY || "pay-demo"}
+      toChain={call.toChain}
+      toAddress={call.toAddress}
+      toToken={call.toToken}
+      toUnits={call.toUnits}
+      toCallData={call.toCallData}
+      intent="Mint"
+      refundAddress={refundAddress}
+      preferredChains={[baseUSDC.chainId]}
+      onPaymentStarted={() => onPaymentStarted?.()}
+      onPaymentCompleted={(e) => onPaymentCompleted?.(e.txHash)}
+      onPaymentBounced={() => onPaymentBounced?.()}
+      closeOnSuccess
+    >
+      {({ show: showDaimoModal }) => (
+        <Button
+          className="w-full"
+          size="lg"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => showDaimoModal()}
+        >
+          {text}
+        </Button>
+      )}
+    </DaimoPayButton.Custom>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import * as React from "react";
+import { Gift, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { OnchainUserSearch, type UnifiedUser } from "~/components/onchain-user-search";
+import { formatAddress } from "~/lib/address-utils";
+
+/**
+ * Display name for a gift recipient: @username, ENS name or short address
+ */
+export function getRecipientLabel(user: UnifiedUser): string {
+  if (user.farcaster) return `@${user.farcaster.username}`;
+  return user.ensName || formatAddress(user.primaryAddress);
+}
+
+/**
+ * Gift toggle for the mint sheet. When enabled, the minter picks a Farcaster user,
+ * ENS name or address and their verified address becomes the mint recipient.
+ */
+export function GiftRecipientPicker({
+  apiKey,
+  enabled,
+  recipient,
+  onEnabledChange,
+  onRecipientChange,
+}: {
+  /** Neynar API key for Farcaster user search */
+  apiKey: string;
+  enabled: boolean;
+  recipient: UnifiedUser | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onRecipientChange: (recipient: UnifiedUser | null) => void;
+}) {
+  return (
+    <div className="space-y-3 py-3 border-b">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="flex items-center gap-2 text-neutral-500 dark:text-neutral-400">
+          <Gift className="h-4 w-4" />
+          Gift to a friend
+        </span>
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-neutral-900 dark:accent-neutral-50"
+          checked={enabled}
+          onChange={(e) => {
+            onEnabledChange(e.target.checked);
+            if (!e.target.checked) onRecipientChange(null);
+          }}
+        />
+      </label>
+
+      {enabled &&
+        (recipient ? (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-neutral-100 dark:bg-neutral-800 p-3">
+            <div className="flex items-center gap-3 min-w-0">
+              {recipient.farcaster?.pfp_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={recipient.farcaster.pfp_url}
+                  alt=""
+                  className="h-8 w-8 rounded-full object-cover"
+                />
+              )}
+              <div className="min-w-0 text-left">
+                <p className="font-semibold truncate">{getRecipientLabel(recipient)}</p>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 font-mono">
+                  {formatAddress(recipient.primaryAddress)}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onRecipientChange(null)}
+              aria-label="Clear recipient"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <OnchainUserSearch
+            apiKey={apiKey}
+            placeholder="Username, ENS or address"
+            layout="vertical"
+            maxResults={3}
+            showAddresses={false}
+            onUserClick={onRecipientChange}
+          />
+        ))}
+    </div>
+  );
+}
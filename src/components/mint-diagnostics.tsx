@@ -0,0 +1,97 @@
+"use client";
+
+import * as React from "react";
+import { Check, ChevronDown, Copy } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "~/components/ui/collapsible";
+import { cn } from "~/lib/utils";
+import type { MintTracer, TraceSpan } from "~/lib/mint-trace";
+
+const STATUS_COLORS: Record<TraceSpan["status"], string> = {
+  running: "text-blue-500",
+  ok: "text-green-600",
+  error: "text-red-500",
+};
+
+/**
+ * Collapsible list of the mint trace spans, with a button that copies the full trace
+ * as JSON for support tickets. Renders nothing while tracing is off.
+ */
+export function MintDiagnostics({
+  tracer,
+  spans,
+  className,
+}: {
+  tracer: MintTracer;
+  spans: readonly TraceSpan[];
+  className?: string;
+}) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [copied, setCopied] = React.useState(false);
+
+  if (!tracer.enabled) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(tracer.serialize());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn("[Diagnostics] Could not copy trace:", err);
+    }
+  };
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className={cn("mt-6 rounded-lg border text-xs", className)}
+    >
+      <CollapsibleTrigger className="flex w-full items-center justify-between p-3 font-semibold">
+        Diagnostics ({spans.length} {spans.length === 1 ? "span" : "spans"})
+        <ChevronDown className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 border-t p-3">
+        {spans.length === 0 ? (
+          <p className="text-neutral-500">No spans recorded yet</p>
+        ) : (
+          <ul className="space-y-2 font-mono">
+            {spans.map((span) => (
+              <li key={span.id}>
+                <div className="flex justify-between gap-2">
+                  <span className={STATUS_COLORS[span.status]}>{span.name}</span>
+                  <span className="text-neutral-500">
+                    {span.durationMs === undefined ? "…" : `${span.durationMs}ms`} · {span.rpcCalls} rpc
+                  </span>
+                </div>
+                {span.error && <p className="text-red-500 break-words">{span.error}</p>}
+                {span.events.map((event, i) => (
+                  <p
+                    key={i}
+                    className={cn(
+                      "pl-2 text-neutral-500 dark:text-neutral-400 break-words",
+                      event.level === "warn" && "text-amber-600",
+                      event.level === "error" && "text-red-500",
+                    )}
+                  >
+                    +{event.at}ms {event.message}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button variant="outline" size="sm" className="w-full gap-1" onClick={handleCopy}>
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? "Copied" : "Copy trace"}
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -9,15 +9,9 @@ import {
   SheetTitle,
 } from "~/components/ui/sheet";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
-import {
-  useAccount,
-  useConnect,
-  useWaitForTransactionReceipt,
-  useWriteContract,
-  useSwitchChain,
-} from "wagmi";
+import { useNFTMint } from "~/hooks/use-nft-mint";
+import { useAccount } from "wagmi";
 import { formatEther, type Address } from "viem";
-import { farcasterFrame } from "@farcaster/miniapp-wagmi-connector";
 import {
   Coins,
   CheckCircle,
@@ -27,26 +21,32 @@ import {
   ExternalLink,
   RefreshCw,
   Wallet,
+  Minus,
+  Plus,
+  Clock,
+  Zap,
 } from "lucide-react";
 import { cn } from "~/lib/utils";
-import {
-  detectNFTProvider,
-  validateParameters,
-  getClientForChain,
-} from "~/lib/provider-detector";
 import { getChainById, findChainByName } from "~/lib/chains";
-import { getProviderConfig } from "~/lib/provider-configs";
-import { fetchPriceData } from "~/lib/price-optimizer";
-import {
-  mintReducer,
-  initialState,
-  type MintStep,
-} from "~/lib/mint-reducer";
-import type { MintParams } from "~/lib/types";
-import {
-  parseError,
-  type ParsedError,
-} from "~/lib/error-parser";
+import { canMintToRecipient } from "~/lib/provider-configs";
+import { formatUsd, type PriceSource } from "~/lib/price-quote";
+import { DaimoPayMintButton } from "~/components/daimo-pay-mint-button";
+import { GiftRecipientPicker, getRecipientLabel } from "~/components/gift-recipient-picker";
+import { ShareCastButton } from "~/components/share-cast-button";
+import type { UnifiedUser } from "~/components/onchain-user-search";
+import { useUsdQuote, type QuoteAmount } from "~/hooks/use-price-quote";
+import { formatCountdown } from "~/lib/mint-window";
+import { getErc20Cost } from "~/lib/mint-reducer";
+import { TokenAllowances } from "~/components/token-allowances";
+import { MintDiagnostics } from "~/components/mint-diagnostics";
+import { NFTCard } from "~/components/nft-card";
+import { getMintedTokenUrl } from "~/lib/mint-receipt";
+import type { MintHistorySync } from "~/lib/mint-history";
+import type { MintAnalytics } from "~/lib/mint-analytics";
+import type { ProofSource } from "~/lib/allowlist";
+
+// Larger mints link the rest through the transaction
+const MAX_MINTED_TOKENS_SHOWN = 4;
 
 /**
  * NFTMintButton - Universal NFT minting button with automatic provider detection and ERC20 approval handling
@@ -75,7 +75,7 @@ import {
  *   network="base"
  *   amount={5}
  *   buttonText="Mint 5 NFTs"
- *   onMintSuccess={(txHash) => console.log("Minted!", txHash)}
+ *   onMintSuccess={(txHash, tokenIds) => console.log("Minted!", txHash, tokenIds)}
  * />
  * ```
  */
@@ -94,8 +94,8 @@ type NFTMintFlowProps = {
   network?: string;
 
   /**
-   * Number of NFTs to mint. Defaults to 1.
-   * Note: For ERC20 payments, the total cost is multiplied by this amount.
+   * Initial number of NFTs to mint. Defaults to 1.
+   * The minter can change it in the sheet, up to their remaining per-wallet allowance.
    */
   amount?: number;
 
@@ -126,6 +126,88 @@ type NFTMintFlowProps = {
     tokenId?: string;
   };
 
+  /**
+   * Zora 1155-specific parameters
+   *
+   * @example
+   * zoraParams={{ tokenId: "3", mintReferral: "0x..." }}
+   *
+   * Find the tokenId in the Zora mint page URL: /collect/{network}:{contract}/{tokenId}
+   */
+  zoraParams?: {
+    /** Token ID of the 1155 edition to mint */
+    tokenId?: string;
+    /** Address credited with the Zora mint referral reward */
+    mintReferral?: Address;
+  };
+
+  /**
+   * thirdweb Edition Drop (ERC1155) parameters
+   *
+   * @example
+   * thirdwebParams={{ tokenId: "0" }}
+   */
+  thirdwebParams?: {
+    /** Token ID to claim. Defaults to 0 */
+    tokenId?: string;
+  };
+
+  /**
+   * Source for allowlist merkle proofs, used when the claim is merkle-gated.
+   * Defaults to the /api/allowlist route.
+   *
+   * @example
+   * proofSource={createStaticProofSource("/allowlists/my-drop.json")}
+   */
+  proofSource?: ProofSource;
+
+  /**
+   * Run detection and pricing on the server via the /api/mint/prepare route
+   * instead of in the browser. Pass true for the default route or a custom endpoint.
+   */
+  prepareEndpoint?: boolean | string;
+
+  /**
+   * Source for USD quotes shown next to the total cost.
+   * Defaults to CoinGecko; use createStaticPriceSource for fixed prices.
+   */
+  priceSource?: PriceSource;
+
+  /**
+   * Offer a "Pay with any token/chain" option that runs the mint through Daimo Pay
+   * when the provider can mint to an explicit recipient
+   * @default true
+   */
+  crossChainPay?: boolean;
+
+  /**
+   * Offer a "Gift to a friend" option that mints to a Farcaster user, ENS name or address.
+   * Needs a Neynar API key for user search (defaults to NEXT_PUBLIC_NEYNAR_API_KEY).
+   * @default true
+   */
+  giftMode?: boolean;
+  /** Neynar API key used by the gift recipient search */
+  neynarApiKey?: string;
+
+  /**
+   * Remote copy of the wallet's mint history, in addition to localStorage.
+   * Pending mints are resumed on reopen either way. Use createApiMintHistorySync for a sync
+   * the /api/mint-history route authenticates with a wallet signature.
+   */
+  historySync?: MintHistorySync;
+
+  /**
+   * Record a structured trace of the mint flow (detect, price, allowance, simulate, write, confirm)
+   * and show it in a diagnostics panel in the sheet. Defaults to the ?mintDebug query param.
+   */
+  debug?: boolean;
+
+  /**
+   * Sink for mint funnel events (detect, sheet open, approve, submit, success, error).
+   * Defaults to PostHog; pass noopMintAnalytics to opt out.
+   */
+  analytics?: MintAnalytics;
+
   // UI customization
   /** Additional CSS classes */
   className?: string;
@@ -141,8 +223,9 @@ type NFTMintFlowProps = {
   /**
    * Called when NFT minting succeeds (not on approval success)
    * @param txHash - The mint transaction hash (not approval tx)
+   * @param tokenIds - Token IDs the recipient received, decoded from the receipt
    */
-  onMintSuccess?: (txHash: string) => void;
+  onMintSuccess?: (txHash: string, tokenIds: string[]) => void;
 
   /**
    * Called when NFT minting fails (not on approval failure)
@@ -156,6 +239,17 @@ export function NFTMintButton({
   network = "ethereum",
   amount = 1,
   manifoldParams,
+  zoraParams,
+  thirdwebParams,
+  proofSource,
+  prepareEndpoint,
+  priceSource,
+  crossChainPay = true,
+  giftMode = true,
+  neynarApiKey = process.env.NEXT_PUBLIC_NEYNAR_API_KEY || "",
+  historySync,
+  debug,
+  analytics,
   className,
   variant = "default",
   size = "default",
@@ -164,11 +258,7 @@ export function NFTMintButton({
   onMintSuccess,
   onMintError,
 }: NFTMintFlowProps) {
-  const [state, dispatch] = React.useReducer(mintReducer, initialState);
   const [isSheetOpen, setIsSheetOpen] = React.useState(false);
-  const [parsedError, setParsedError] = React.useState<ParsedError | null>(
-    null,
-  );
 
   // Convert network name to chainId
   const targetChain = React.useMemo(() => {
@@ -191,6 +281,57 @@ export function NFTMintButton({
     }
   }, [contractAddress]);
 
+  const { isSDKLoaded } = useMiniAppSdk();
+
+  // Gift mode: mint to a picked user instead of the connected wallet
+  const [isGift, setIsGift] = React.useState(false);
+  const [giftRecipient, setGiftRecipient] = React.useState<UnifiedUser | null>(null);
+
+  const {
+    state,
+    dispatch,
+    breakdown,
+    parsedError,
+    tracer,
+    trace,
+    isCorrectNetwork,
+    isWritePending,
+    isReadyToMint,
+    maxQuantity,
+    canChangeQuantity,
+    secondsUntilStart,
+    resumedMint,
+    isSpeedingUp,
+    speedUpError,
+    crossChainCall,
+    crossChain,
+    prepare,
+    approve,
+    mint,
+    reset,
+    setQuantity,
+    setApprovalMode,
+    speedUp,
+    switchNetwork,
+    connectWallet,
+  } = useNFTMint({
+    contractAddress,
+    chainId,
+    amount,
+    instanceId: manifoldParams?.instanceId,
+    tokenId: manifoldParams?.tokenId ?? zoraParams?.tokenId ?? thirdwebParams?.tokenId,
+    mintReferral: zoraParams?.mintReferral,
+    recipient: isGift && giftRecipient ? (giftRecipient.primaryAddress as Address) : undefined,
+    proofSource,
+    prepareEndpoint,
+    crossChainPay,
+    historySync,
+    onMintSuccess,
+    onMintError,
+    debug,
+    analytics,
+  });
+
   // Destructure commonly used values
   const {
     step,
@@ -201,113 +342,21 @@ export function NFTMintButton({
     txType,
     isLoading,
     validationErrors,
+    quantity,
+    walletLimit,
+    mintWindow,
+    approvalMode,
+    mintedTokens,
   } = state;
   const { erc20Details } = priceData;
 
-  const { isSDKLoaded } = useMiniAppSdk();
-  const { isConnected, address, chain } = useAccount();
-  const { connect } = useConnect();
-  const { switchChain } = useSwitchChain();
-  const {
-    writeContract,
-    isPending: isWritePending,
-    data: writeData,
-    error: writeError,
-  } = useWriteContract();
-
-  // Build mint params
-  const mintParams: MintParams = React.useMemo(
-    () => ({
-      contractAddress,
-      chainId,
-      provider: undefined, // Let auto-detection handle this
-      amount,
-      instanceId: manifoldParams?.instanceId,
-      tokenId: manifoldParams?.tokenId,
-      recipient: address,
-    }),
-    [contractAddress, chainId, amount, manifoldParams, address],
-  );
-
-  // Watch for transaction completion
-  const {
-    isSuccess: isTxSuccess,
-    isError: isTxError,
-    error: txError,
-  } = useWaitForTransactionReceipt({
-    hash: writeData,
-  });
-
-  // Get provider config
-  const providerConfig = contractInfo
-    ? getProviderConfig(contractInfo.provider, contractInfo, mintParams)
-    : null;
-
-  // Check if user is on the correct network
-  const isCorrectNetwork = chain?.id === chainId;
+  const { isConnected, address } = useAccount();
   const networkName = targetChain.name || "Unknown";
 
-  // Handle transaction status updates
-  React.useEffect(() => {
-    if (writeError) {
-      const parsed = parseError(writeError, txType || "mint");
-
-      // Show retry option for user rejections
-      if (parsed.type === "user-rejected") {
-        setParsedError(parsed);
-        dispatch({
-          type: "TX_ERROR",
-          payload: "Transaction cancelled by user",
-        });
-        return;
-      }
-
-      setParsedError(parsed);
-      dispatch({ type: "TX_ERROR", payload: writeError.message });
-      if (txType === "mint") {
-        onMintError?.(writeError.message);
-      }
-    }
-    if (isTxError && txError) {
-      const parsed = parseError(txError, txType || "mint");
-      setParsedError(parsed);
-      dispatch({ type: "TX_ERROR", payload: txError.message });
-      if (txType === "mint") {
-        onMintError?.(txError.message);
-      }
-    }
-    if (writeData && !isTxSuccess && !isTxError) {
-      // Transaction submitted, waiting for confirmation
-      if (txType === "approval") {
-        dispatch({ type: "APPROVE_TX_SUBMITTED", payload: writeData });
-      } else if (txType === "mint") {
-        dispatch({ type: "MINT_TX_SUBMITTED", payload: writeData });
-      }
-    }
-    if (isTxSuccess && writeData) {
-      if (txType === "approval") {
-        dispatch({ type: "APPROVE_SUCCESS" });
-      } else if (txType === "mint") {
-        dispatch({ type: "TX_SUCCESS", payload: writeData });
-        onMintSuccess?.(writeData);
-      }
-    }
-  }, [
-    isTxSuccess,
-    writeData,
-    onMintSuccess,
-    isTxError,
-    txError,
-    onMintError,
-    writeError,
-    txType,
-  ]);
-
   const handleClose = React.useCallback(() => {
     setIsSheetOpen(false);
-    dispatch({ type: "RESET" });
-    setParsedError(null);
-  }, []);
+    reset();
+  }, [reset]);
 
   // Auto-close on success after 10 seconds
   React.useEffect(() => {
@@ -319,140 +368,10 @@ export function NFTMintButton({
     }
   }, [step, handleClose]);
 
-  const handleSwitchNetwork = async () => {
-    try {
-      await switchChain({ chainId });
-    } catch (err) {
-      // Network switch failed - user likely rejected or wallet doesn't support it
-    }
-  };
-
-  // Detect NFT provider and validate
-  const detectAndValidate = async () => {
-    console.group("🔍 [DETECT DEBUG] Starting provider detection");
-    console.log("Mint params:", mintParams);
-    
-    dispatch({ type: "DETECT_START" });
-
-    try {
-      // Detect provider
-      console.log("🔍 [DETECT DEBUG] Calling detectNFTProvider...");
-      const info = await detectNFTProvider(mintParams);
-      console.log("🔍 [DETECT DEBUG] Detected provider info:", info);
-
-      // Validate parameters
-      console.log("🔍 [DETECT DEBUG] Validating parameters...");
-      const validation = validateParameters(mintParams, info);
-      console.log("🔍 [DETECT DEBUG] Validation result:", validation);
-
-      if (!validation.isValid) {
-        console.error("❌ [DETECT DEBUG] Validation failed:", validation.errors);
-        dispatch({ type: "VALIDATION_ERROR", payload: validation.errors });
-        console.groupEnd();
-        return;
-      }
-
-      // Fetch optimized price data
-      console.log("🔍 [DETECT DEBUG] Fetching price data...");
-      const client = getClientForChain(chainId);
-      const fetchedPriceData = await fetchPriceData(client, mintParams, info);
-      console.log("🔍 [DETECT DEBUG] Price data:", fetchedPriceData);
-
-      // Update contract info with ERC20 details and claim data
-      if (fetchedPriceData.erc20Details) {
-        console.log("🔍 [DETECT DEBUG] Adding ERC20 details to contract info");
-        info.erc20Token = fetchedPriceData.erc20Details
-          .address as `0x${string}`;
-        info.erc20Symbol = fetchedPriceData.erc20Details.symbol;
-        info.erc20Decimals = fetchedPriceData.erc20Details.decimals;
-      }
-
-      // Add claim data if available
-      if (fetchedPriceData.claim) {
-        console.log("🔍 [DETECT DEBUG] Adding claim data to contract info");
-        info.claim = fetchedPriceData.claim;
-      }
-
-      console.log("🔍 [DETECT DEBUG] Final contract info:", info);
-      console.log("🔍 [DETECT DEBUG] Final price data:", {
-        mintPrice: fetchedPriceData.mintPrice,
-        totalCost: fetchedPriceData.totalCost,
-        erc20Details: fetchedPriceData.erc20Details,
-      });
-
-      dispatch({
-        type: "DETECT_SUCCESS",
-        payload: {
-          contractInfo: info,
-          priceData: {
-            mintPrice: fetchedPriceData.mintPrice,
-            totalCost: fetchedPriceData.totalCost,
-            erc20Details: fetchedPriceData.erc20Details,
-          },
-        },
-      });
-      
-      console.log("✅ [DETECT DEBUG] Detection completed successfully");
-    } catch (err) {
-      console.error("❌ [DETECT DEBUG] Detection failed:", err);
-      console.error("Error type:", typeof err);
-      console.error("Error message:", err instanceof Error ? err.message : String(err));
-      console.error("Error stack:", err instanceof Error ? err.stack : "No stack");
-      dispatch({
-        type: "DETECT_ERROR",
-        payload: "Failed to detect NFT contract type",
-      });
-    }
-    
-    console.groupEnd();
-  };
-
-  // Check allowance only (without re-detecting everything)
-  const checkAllowanceOnly = React.useCallback(async () => {
-    if (!contractInfo || !erc20Details || !address) return;
-
-    try {
-      const client = getClientForChain(chainId);
-      const spenderAddress =
-        contractInfo.provider === "manifold" && contractInfo.extensionAddress
-          ? contractInfo.extensionAddress
-          : contractAddress;
-
-      const allowance = await client.readContract({
-        address: erc20Details.address as `0x${string}`,
-        abi: [
-          {
-            name: "allowance",
-            type: "function",
-            inputs: [
-              { name: "owner", type: "address" },
-              { name: "spender", type: "address" },
-            ],
-            outputs: [{ type: "uint256" }],
-            stateMutability: "view",
-          },
-        ],
-        functionName: "allowance",
-        args: [address, spenderAddress],
-      });
-
-      dispatch({ type: "UPDATE_ALLOWANCE", payload: allowance as bigint });
-    } catch (err) {
-      // Allowance check failed - will proceed without pre-checked allowance
-    }
-  }, [contractInfo, erc20Details, address, chainId, contractAddress]);
-
-  // Re-check allowance after wallet connection
+  // Show a mint that was still pending when the app was closed
   React.useEffect(() => {
-    if (
-      isConnected &&
-      address &&
-      erc20Details &&
-      erc20Details.allowance === undefined
-    ) {
-      checkAllowanceOnly();
-    }
-  }, [isConnected, address, erc20Details, checkAllowanceOnly]);
+    if (resumedMint) setIsSheetOpen(true);
+  }, [resumedMint]);
 
   const handleInitialMint = async () => {
     if (!isSDKLoaded) {
@@ -462,262 +381,12 @@ export function NFTMintButton({
     }
 
     setIsSheetOpen(true);
-    await detectAndValidate();
-  };
-
-  const handleConnectWallet = async () => {
-    try {
-      dispatch({ type: "CONNECT_START" });
-      const connector = farcasterFrame();
-      connect({ connector });
-    } catch (err) {
-      handleError(err, "Failed to connect wallet");
-    }
-  };
-
-  const handleApprove = async () => {
-    if (!isConnected || !erc20Details || !contractInfo?.claim) {
-      dispatch({
-        type: "TX_ERROR",
-        payload: "Missing required information for approval",
-      });
-      return;
-    }
-
-    try {
-      dispatch({ type: "APPROVE_START" });
-
-      // For Manifold, approve the extension contract, not the NFT contract
-      const spenderAddress =
-        contractInfo.provider === "manifold" && contractInfo.extensionAddress
-          ? contractInfo.extensionAddress
-          : contractAddress;
-
-      // Approve exact amount needed
-      await writeContract({
-        address: erc20Details.address as `0x${string}`,
-        abi: [
-          {
-            name: "approve",
-            type: "function",
-            inputs: [
-              { name: "spender", type: "address" },
-              { name: "amount", type: "uint256" },
-            ],
-            outputs: [{ type: "bool" }],
-            stateMutability: "nonpayable",
-          },
-        ],
-        functionName: "approve",
-        args: [spenderAddress, contractInfo.claim.cost],
-        chainId,
-      });
-
-      // The transaction has been initiated - we'll track it via writeData in the effect
-    } catch (err) {
-      handleError(err, "Approval failed", "approval");
-    }
-  };
-
-  const handleMint = async () => {
-    console.group("🟡 [MINT DEBUG] Starting mint transaction");
-    console.log("Connected:", isConnected);
-    console.log("Contract Info:", contractInfo);
-    console.log("Provider Config:", providerConfig);
-    console.log("Mint Params:", mintParams);
-    console.log("Price Data:", priceData);
-    
-    if (!isConnected) {
-      console.log("❌ [MINT DEBUG] Not connected, connecting wallet");
-      await handleConnectWallet();
-      console.groupEnd();
-      return;
-    }
-
-    if (!contractInfo || !providerConfig) {
-      console.error("❌ [MINT DEBUG] Missing required info:", {
-        contractInfo: !!contractInfo,
-        providerConfig: !!providerConfig
-      });
-      dispatch({
-        type: "TX_ERROR",
-        payload: "Contract information not available",
-      });
-      console.groupEnd();
-      return;
-    }
-
-    try {
-      console.log("🟢 [MINT DEBUG] Starting mint transaction preparation");
-      dispatch({ type: "MINT_START" });
-
-      console.log("🔧 [MINT DEBUG] Building transaction arguments");
-      const args = providerConfig.mintConfig.buildArgs(mintParams);
-      console.log("Built args:", args);
-
-      const value = priceData.totalCost || BigInt(0);
-      console.log("Transaction value:", value.toString(), "wei");
-
-      // Handle Manifold's special case
-      const mintAddress =
-        contractInfo.provider === "manifold" && contractInfo.extensionAddress
-          ? contractInfo.extensionAddress
-          : contractAddress;
-      console.log("Mint address:", mintAddress);
-      console.log("Provider:", contractInfo.provider);
-
-      // Prepare contract config based on provider type
-      let contractConfig: any;
-
-      contractConfig = {
-        address: mintAddress,
-        abi: providerConfig.mintConfig.abi,
-        functionName: providerConfig.mintConfig.functionName,
-        args,
-        value,
-        chainId,
-      };
-
-      console.log("🔧 [MINT DEBUG] Final contract config:");
-      console.log("Address:", contractConfig.address);
-      console.log("Function:", contractConfig.functionName);
-      console.log("Args:", contractConfig.args);
-      console.log("Value:", contractConfig.value.toString());
-      console.log("Chain ID:", contractConfig.chainId);
-      console.log("ABI function count:", contractConfig.abi.length);
-
-      // Validate contract state before minting
-      console.log("🔍 [MINT DEBUG] Validating contract state...");
-      try {
-        const client = getClientForChain(chainId);
-        
-        // Check basic contract existence
-        const bytecode = await client.getBytecode({ address: contractConfig.address });
-        if (!bytecode || bytecode === "0x") {
-          throw new Error("Contract not found at the specified address");
-        }
-        console.log("✅ [MINT DEBUG] Contract exists at address");
-
-        // Validate user's balance for payment
-        if (contractConfig.value > 0n) {
-          const balance = await client.getBalance({ address: address! });
-          console.log("User balance:", balance.toString(), "wei");
-          console.log("Required value:", contractConfig.value.toString(), "wei");
-          
-          if (balance < contractConfig.value) {
-            throw new Error(`Insufficient balance. Need ${contractConfig.value.toString()} wei but only have ${balance.toString()} wei`);
-          }
-          console.log("✅ [MINT DEBUG] User has sufficient balance");
-        }
-
-        // Try to validate the function exists in the contract
-        try {
-          await client.readContract({
-            address: contractConfig.address,
-            abi: [{
-              name: contractConfig.functionName,
-              type: "function",
-              inputs: [],
-              outputs: [],
-              stateMutability: "view"
-            }],
-            functionName: contractConfig.functionName,
-          });
-        } catch (readError) {
-          console.log("⚠️ [MINT DEBUG] Cannot validate function existence (expected for payable functions)");
-        }
-
-      } catch (validationError) {
-        console.error("❌ [MINT DEBUG] Contract validation failed:", validationError);
-        throw new Error(`Contract validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`);
-      }
-
-      // Simulate the transaction first to catch errors early
-      console.log("🧪 [MINT DEBUG] Simulating transaction...");
-      try {
-        const client = getClientForChain(chainId);
-        const simulation = await client.simulateContract({
-          address: contractConfig.address,
-          abi: contractConfig.abi,
-          functionName: contractConfig.functionName,
-          args: contractConfig.args,
-          value: contractConfig.value,
-          account: address,
-        });
-        console.log("✅ [MINT DEBUG] Transaction simulation successful:", simulation.result);
-      } catch (simError) {
-        console.error("❌ [MINT DEBUG] Transaction simulation failed:");
-        console.error("Simulation error:", simError);
-        console.error("Error name:", simError instanceof Error ? simError.name : "Unknown");
-        console.error("Error message:", simError instanceof Error ? simError.message : String(simError));
-        console.error("This means the transaction would fail before reaching wallet");
-        throw new Error(`Transaction simulation failed: ${simError instanceof Error ? simError.message : String(simError)}`);
-      }
-
-      // Execute the transaction
-      console.log("🚀 [MINT DEBUG] Simulation passed, executing writeContract...");
-      await writeContract(contractConfig);
-      console.log("✅ [MINT DEBUG] writeContract call completed successfully");
-
-      // The transaction has been initiated - we'll track it via writeData in the effect
-    } catch (err) {
-      console.error("❌ [MINT DEBUG] Error in handleMint:", err);
-      console.error("Error type:", typeof err);
-      console.error("Error name:", err instanceof Error ? err.name : "Unknown");
-      console.error("Error message:", err instanceof Error ? err.message : String(err));
-      console.error("Error stack:", err instanceof Error ? err.stack : "No stack");
-      handleError(err, "Mint transaction failed", "mint");
-    }
-    
-    console.groupEnd();
-  };
-
-  // Centralized error handler
-  const handleError = (
-    error: unknown,
-    context: string,
-    transactionType?: "approval" | "mint",
-  ) => {
-    console.group("🚨 [ERROR HANDLER] Processing error");
-    console.log("Context:", context);
-    console.log("Transaction Type:", transactionType);
-    console.error("Original error:", error);
-    console.error("Error type:", typeof error);
-    console.error("Error name:", error instanceof Error ? error.name : "Unknown");
-    console.error("Error message:", error instanceof Error ? error.message : String(error));
-    
-    let userMessage = error instanceof Error ? error.message : `${context}`;
-
-    // Enhance error messages with debugging context
-    if (userMessage.includes("Transaction simulation failed")) {
-      userMessage = "🧪 Transaction would fail: " + userMessage.replace("Transaction simulation failed: ", "");
-    } else if (userMessage.includes("Contract validation failed")) {
-      userMessage = "🔍 Contract issue: " + userMessage.replace("Contract validation failed: ", "");
-    } else if (userMessage.includes("Insufficient balance")) {
-      userMessage = "💰 " + userMessage;
-    } else if (userMessage.includes("Contract not found")) {
-      userMessage = "📋 " + userMessage;
-    } else if (userMessage.includes("user rejected")) {
-      userMessage = "❌ Transaction cancelled by user";
-    }
-
-    // Parse the error for better UX
-    const parsed = parseError(error, transactionType || "mint");
-    setParsedError(parsed);
-
-    dispatch({ type: "TX_ERROR", payload: userMessage });
-    // Use explicit transaction type if provided, otherwise fall back to state
-    if ((transactionType || txType) === "mint") {
-      onMintError?.(userMessage);
-    }
-    
-    console.log("Final user message:", userMessage);
-    console.groupEnd();
+    await prepare();
   };
 
   const handleRetry = () => {
-    dispatch({ type: "RESET" });
-    detectAndValidate();
+    reset();
+    prepare();
   };
 
   // Display helpers (quick win: centralized formatting)
@@ -746,9 +415,9 @@ export function NFTMintButton({
   };
 
   const displayPrice = () => {
-    if (erc20Details && contractInfo?.claim) {
+    if (erc20Details) {
       return formatPrice(
-        contractInfo.claim.cost || BigInt(0),
+        getErc20Cost(contractInfo, priceData, 1),
         erc20Details.decimals || 18,
         erc20Details.symbol,
       );
@@ -759,10 +428,9 @@ export function NFTMintButton({
   };
 
   const displayTotalCost = () => {
-    if (erc20Details && contractInfo?.claim) {
-      // For Manifold, cost is per claim, not per NFT amount
+    if (erc20Details) {
       return formatPrice(
-        contractInfo.claim.cost || BigInt(0),
+        getErc20Cost(contractInfo, priceData, quantity),
         erc20Details.decimals || 18,
         erc20Details.symbol,
       );
@@ -772,26 +440,32 @@ export function NFTMintButton({
       : "Free";
   };
 
-  const displayMintFee = () => {
-    const fee = priceData.mintPrice || BigInt(0);
-    return fee > BigInt(0) ? `${formatEther(fee)} ${getNativeCurrencySymbol(chainId)}` : `0 ${getNativeCurrencySymbol(chainId)}`;
-  };
+
+  const quoteAmounts: QuoteAmount[] = [
+    { amount: priceData.totalCost, decimals: targetChain.nativeCurrency.decimals },
+  ];
+  if (erc20Details && breakdown?.erc20Amount !== undefined) {
+    quoteAmounts.push({
+      amount: breakdown.erc20Amount,
+      decimals: erc20Details.decimals || 18,
+      token: erc20Details.address as Address,
+    });
+  }
+  const totalCostUsd = useUsdQuote(chainId, quoteAmounts, priceSource);
+
+  const formatNative = (amount: bigint) =>
+    `${formatEther(amount)} ${getNativeCurrencySymbol(chainId)}`;
 
   const providerName = contractInfo?.provider
     ? contractInfo.provider.charAt(0).toUpperCase() +
       contractInfo.provider.slice(1)
     : "Unknown";
 
-  // Quick win: validation helper
-  const isReadyToMint = () => {
-    return (
-      isConnected &&
-      contractInfo &&
-      !isLoading &&
-      step === "sheet" &&
-      (!erc20Details || !erc20Details.needsApproval)
-    );
-  };
+  // Gift toggled on but no recipient picked yet
+  const canGift =
+    giftMode && !!neynarApiKey && !!contractInfo && canMintToRecipient(contractInfo);
+  const isGiftPending = canGift && isGift && !giftRecipient;
+  const giftLabel = canGift && isGift && giftRecipient ? getRecipientLabel(giftRecipient) : null;
 
   return (
     <Sheet
@@ -828,12 +502,17 @@ export function NFTMintButton({
             {step === "minting" && "Preparing Mint"}
             {step === "waiting" &&
               (txType === "approval" ? "Approving..." : "Minting...")}
+            {step === "stalled" && "Taking Longer Than Usual"}
+            {step === "dropped" && "Transaction Dropped"}
             {step === "success" && "Mint Successful!"}
             {step === "error" &&
               (parsedError?.type === "user-rejected"
                 ? "Transaction Cancelled"
                 : "Transaction Failed")}
             {step === "validation-error" && "Missing Information"}
+            {step === "not-eligible" && "Not Eligible"}
+            {step === "not-started" && "Mint Not Open Yet"}
+            {step === "ended" && "Mint Ended"}
           </SheetTitle>
         </SheetHeader>
 
@@ -874,6 +553,67 @@ export function NFTMintButton({
           </div>
         )}
 
+        {/* Not on allowlist */}
+        {/* Mint window not open yet */}
+        {step === "not-started" && mintWindow?.start && (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <Clock className="h-12 w-12 text-neutral-500" />
+            </div>
+            <div className="space-y-2 text-center">
+              <p className="font-semibold">Mint opens in</p>
+              <p className="text-3xl font-bold tabular-nums">
+                {formatCountdown(secondsUntilStart ?? 0)}
+              </p>
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                {new Date(mintWindow.start * 1000).toLocaleString()}
+              </p>
+            </div>
+            <Button onClick={handleClose} variant="outline" className="w-full">
+              Close
+            </Button>
+          </div>
+        )}
+
+        {/* Mint window closed */}
+        {step === "ended" && (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <Clock className="h-12 w-12 text-neutral-500" />
+            </div>
+            <div className="space-y-2 text-center">
+              <p className="font-semibold">This mint has ended</p>
+              {mintWindow?.end && (
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  Closed {new Date(mintWindow.end * 1000).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <Button onClick={handleClose} className="w-full">
+              Close
+            </Button>
+          </div>
+        )}
+
+        {step === "not-eligible" && (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <AlertCircle className="h-12 w-12 text-yellow-500" />
+            </div>
+            <div className="space-y-2">
+              <p className="font-semibold text-center">
+                {walletLimit?.remaining === 0 ? "Wallet Limit Reached" : "Allowlist Required"}
+              </p>
+              <p className="text-sm text-neutral-500 text-center dark:text-neutral-400">
+                {error}
+              </p>
+            </div>
+            <Button onClick={handleClose} className="w-full">
+              Close
+            </Button>
+          </div>
+        )}
+
         {/* Approve Step */}
         {step === "approve" && erc20Details && (
           <div className="space-y-6">
@@ -892,16 +632,37 @@ export function NFTMintButton({
               <div className="flex justify-between items-center py-3 border-b">
                 <span className="text-neutral-500 dark:text-neutral-400">Amount to Approve</span>
                 <span className="font-semibold">
-                  {contractInfo?.claim
-                    ? Number(contractInfo.claim.cost) /
-                      10 ** erc20Details.decimals
-                    : 0}{""}
-                  {erc20Details.symbol}
+                  {approvalMode === "unlimited"
+                    ? `Unlimited ${erc20Details.symbol}`
+                    : formatPrice(
+                        getErc20Cost(contractInfo, priceData, quantity),
+                        erc20Details.decimals || 18,
+                        erc20Details.symbol,
+                      )}
                 </span>
               </div>
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Approval amount">
+                {(["exact", "unlimited"] as const).map((mode) => (
+                  <Button
+                    key={mode}
+                    role="radio"
+                    aria-checked={approvalMode === mode}
+                    variant={approvalMode === mode ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setApprovalMode(mode)}
+                  >
+                    {mode === "exact" ? `Exact (${quantity} NFT${quantity > 1 ? "s" : ""})` : "Unlimited"}
+                  </Button>
+                ))}
+              </div>
+              {approvalMode === "unlimited" && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  Skips approvals on future mints from this contract. You can revoke it any time below.
+                </p>
+              )}
             </div>
             <Button
-              onClick={handleApprove}
+              onClick={approve}
               size="lg"
               className="w-full"
               disabled={isWritePending}
@@ -909,6 +670,7 @@ export function NFTMintButton({
               <Coins className="h-5 w-5 mr-2" />
               Approve {erc20Details.symbol}
             </Button>
+            <TokenAllowances />
           </div>
         )}
 
@@ -924,7 +686,7 @@ export function NFTMintButton({
                     <p className="text-sm font-medium">Wrong network</p>
                   </div>
                   <Button
-                    onClick={handleSwitchNetwork}
+                    onClick={switchNetwork}
                     size="sm"
                     variant="ghost"
                     className="text-xs"
@@ -948,36 +710,121 @@ export function NFTMintButton({
               </div>
               <div className="flex justify-between items-center py-3 border-b">
                 <span className="text-neutral-500 dark:text-neutral-400">Quantity</span>
-                <span className="font-semibold">{amount}</span>
+                {canChangeQuantity ? (
+                  <div className="flex items-center gap-3">
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-8 w-8"
+                      onClick={() => setQuantity(quantity - 1)}
+                      disabled={quantity <= 1 || isLoading}
+                      aria-label="Decrease quantity"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="font-semibold w-6 text-center">{quantity}</span>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-8 w-8"
+                      onClick={() => setQuantity(quantity + 1)}
+                      disabled={(maxQuantity !== undefined && quantity >= maxQuantity) || isLoading}
+                      aria-label="Increase quantity"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="font-semibold">{quantity}</span>
+                )}
               </div>
+              {walletLimit?.remaining !== undefined && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 -mt-2">
+                  {walletLimit.remaining} of {walletLimit.limit} left for this wallet
+                </p>
+              )}
+              {canGift && (
+                <GiftRecipientPicker
+                  apiKey={neynarApiKey}
+                  enabled={isGift}
+                  recipient={giftRecipient}
+                  onEnabledChange={setIsGift}
+                  onRecipientChange={setGiftRecipient}
+                />
+              )}
               <div className="flex justify-between items-center py-3 border-b">
                 <span className="text-neutral-500 dark:text-neutral-400">Price per NFT</span>
                 <span className="font-semibold">{displayPrice()}</span>
               </div>
-              {erc20Details && (
-                <div className="flex justify-between items-center py-3 border-b">
-                  <span className="text-neutral-500 dark:text-neutral-400">Mint Fee</span>
-                  <span className="font-semibold">{displayMintFee()}</span>
+              {breakdown && (
+                <div className="py-2 border-b space-y-1.5 text-sm">
+                  {breakdown.tokenPrice > BigInt(0) && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-neutral-500 dark:text-neutral-400">
+                        Token price{quantity > 1 ? ` × ${quantity}` : ""}
+                      </span>
+                      <span>{formatNative(breakdown.tokenPrice)}</span>
+                    </div>
+                  )}
+                  {breakdown.erc20Amount !== undefined && erc20Details && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-neutral-500 dark:text-neutral-400">
+                        {erc20Details.symbol} amount
+                      </span>
+                      <span>
+                        {formatPrice(breakdown.erc20Amount, erc20Details.decimals || 18, erc20Details.symbol)}
+                      </span>
+                    </div>
+                  )}
+                  {breakdown.mintFee > BigInt(0) && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-neutral-500 dark:text-neutral-400">Mint Fee</span>
+                      <span>{formatNative(breakdown.mintFee)}</span>
+                    </div>
+                  )}
+                  {breakdown.protocolFee > BigInt(0) && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-neutral-500 dark:text-neutral-400">Protocol Fee</span>
+                      <span>{formatNative(breakdown.protocolFee)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center">
+                    <span className="text-neutral-500 dark:text-neutral-400">Est. Gas</span>
+                    <span>{breakdown.gas ? `~${formatNative(breakdown.gas.estimatedCost)}` : "—"}</span>
+                  </div>
                 </div>
               )}
               <div className="flex justify-between items-center py-3 text-lg font-semibold">
                 <span>Total Cost</span>
-                <span>{displayTotalCost()}</span>
+                <span className="text-right">
+                  {displayTotalCost()}
+                  {totalCostUsd !== null && totalCostUsd > 0 && (
+                    <span className="block text-xs font-normal text-neutral-500 dark:text-neutral-400">
+                      ≈ {formatUsd(totalCostUsd)}
+                    </span>
+                  )}
+                </span>
               </div>
+              {erc20Details?.needsApproval && erc20Details.permit && (
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  You&apos;ll sign a {erc20Details.symbol} permit with the mint instead of sending a
+                  separate approval transaction.
+                </p>
+              )}
             </div>
 
             <Button
               onClick={
                 !isConnected 
-                  ? handleConnectWallet 
+                  ? connectWallet 
                   : !isCorrectNetwork 
-                  ? handleSwitchNetwork 
-                  : handleMint
+                  ? switchNetwork 
+                  : mint
               }
               size="lg"
               className="w-full"
               variant={!isConnected || !isCorrectNetwork ? "outline" : "default"}
-              disabled={isWritePending || (!isReadyToMint() && isCorrectNetwork)}
+              disabled={isWritePending || (!(isReadyToMint && !isGiftPending) && isCorrectNetwork)}
             >
               {isConnected ? (
                 !isCorrectNetwork ? (
@@ -991,7 +838,7 @@ export function NFTMintButton({
                 ) : (
                   <>
                     <Coins className="h-5 w-5 mr-2" />
-                    Mint {amount} NFT{amount > 1 ? "s" : ""}
+                    {giftLabel ? "Gift" : "Mint"} {quantity} NFT{quantity > 1 ? "s" : ""}
                   </>
                 )
               ) : (
@@ -1004,6 +851,19 @@ export function NFTMintButton({
                 </>
               )}
             </Button>
+
+            {crossChainCall && address && !isGiftPending && (
+              <DaimoPayMintButton
+                call={crossChainCall}
+                refundAddress={address}
+                disabled={isWritePending || isLoading}
+                onPaymentStarted={crossChain.onPaymentStarted}
+                onPaymentCompleted={crossChain.onPaymentCompleted}
+                onPaymentBounced={crossChain.onPaymentBounced}
+              />
+            )}
+
+            {erc20Details && <TokenAllowances className="pt-2" />}
           </div>
         )}
 
@@ -1039,7 +899,7 @@ export function NFTMintButton({
         )}
 
         {/* Waiting for Transaction */}
-        {step === "waiting" && (
+        {(step === "waiting" || step === "stalled") && (
           <div className="text-center space-y-4">
             <div className="flex justify-center">
               <Loader2 className="h-10 w-10 sm:h-12 sm:w-12 animate-spin text-neutral-900 dark:text-neutral-50" />
@@ -1051,7 +911,9 @@ export function NFTMintButton({
                   : "Transaction submitted"}
               </p>
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                Waiting for confirmation on the blockchain...
+                {step === "stalled"
+                  ? "Still pending. Network fees may have gone up since it was sent."
+                  : "Waiting for confirmation on the blockchain..."}
               </p>
               {txHash && (
                 <p className="text-xs font-mono mt-2 px-3 py-1 bg-neutral-100 rounded dark:bg-neutral-800">
@@ -1059,6 +921,47 @@ export function NFTMintButton({
                 </p>
               )}
             </div>
+            {step === "stalled" && (
+              <div className="space-y-2">
+                <Button onClick={speedUp} disabled={isSpeedingUp} className="w-full">
+                  {isSpeedingUp ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Zap className="h-4 w-4 mr-2" />
+                  )}
+                  Speed up
+                </Button>
+                {speedUpError && <p className="text-xs text-red-500">{speedUpError}</p>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Dropped Transaction */}
+        {step === "dropped" && (
+          <div className="space-y-6">
+            <div className="text-center space-y-4">
+              <div className="flex justify-center">
+                <div className="p-3 rounded-full bg-yellow-50">
+                  <AlertCircle className="h-10 w-10 sm:h-12 sm:w-12 text-yellow-500" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <p className="font-semibold text-lg">Nothing was minted</p>
+                <p className="text-sm text-neutral-500 max-w-sm mx-auto dark:text-neutral-400">
+                  {error}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handleClose} className="flex-1">
+                Close
+              </Button>
+              <Button onClick={handleRetry} className="flex-1">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Try Again
+              </Button>
+            </div>
           </div>
         )}
 
@@ -1071,9 +974,53 @@ export function NFTMintButton({
             <div className="space-y-3">
               <p className="text-xl sm:text-2xl font-semibold">Minted! 🎉</p>
               <p className="text-neutral-500 dark:text-neutral-400">
-                {amount} NFT{amount > 1 ? "s" : ""} successfully minted
+                {quantity} NFT{quantity > 1 ? "s" : ""} successfully minted
+                {giftLabel && ` for ${giftLabel}`}
               </p>
             </div>
+            {mintedTokens.length > 0 && (
+              <div
+                className={cn(
+                  "grid gap-3",
+                  mintedTokens.length === 1 ? "grid-cols-1 justify-items-center" : "grid-cols-2",
+                )}
+              >
+                {mintedTokens.slice(0, MAX_MINTED_TOKENS_SHOWN).map((token) => (
+                  <a
+                    key={token.tokenId}
+                    href={getMintedTokenUrl(chainId, token, txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block space-y-1"
+                  >
+                    <NFTCard
+                      contractAddress={token.contractAddress}
+                      tokenId={token.tokenId}
+                      network={networkName}
+                      size={mintedTokens.length === 1 ? 200 : 140}
+                      displayOptions={{ showTitle: false, showNetwork: false }}
+                    />
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                      #{token.tokenId}
+                      {token.amount > BigInt(1) && ` × ${token.amount}`}
+                    </p>
+                  </a>
+                ))}
+                {mintedTokens.length > MAX_MINTED_TOKENS_SHOWN && (
+                  <p className="col-span-2 text-xs text-neutral-500 dark:text-neutral-400">
+                    +{mintedTokens.length - MAX_MINTED_TOKENS_SHOWN} more
+                  </p>
+                )}
+              </div>
+            )}
+            {giftLabel && (
+              <ShareCastButton
+                text={`Just minted ${quantity > 1 ? `${quantity} NFTs` : "an NFT"} for ${giftLabel} 🎁`}
+                url={txHash ? `https://txha.sh/${txHash}` : undefined}
+                variant="secondary"
+                className="w-full gap-2"
+              />
+            )}
             {txHash && (
               <div className="space-y-3">
                 <Button variant="outline" size="sm" className="gap-2" asChild>
@@ -1139,7 +1086,7 @@ export function NFTMintButton({
                   </div>
                 </div>
                 <Button
-                  onClick={handleSwitchNetwork}
+                  onClick={switchNetwork}
                   size="sm"
                   className="w-full"
                   variant="outline"
@@ -1194,6 +1141,8 @@ export function NFTMintButton({
             </div>
           </div>
         )}
+
+        <MintDiagnostics tracer={tracer} spans={trace} />
       </SheetContent>
     </Sheet>
   );
@@ -1223,7 +1172,7 @@ NFTMintButton.presets = {
     amount?: number;
     buttonText?: string;
     manifoldParams?: { instanceId?: string; tokenId?: string };
-    onMintSuccess?: (txHash: string) => void;
+    onMintSuccess?: (txHash: string, tokenIds: string[]) => void;
     onMintError?: (error: string) => void;
   }): NFTMintFlowProps => ({
     ...props,
@@ -1248,7 +1197,7 @@ NFTMintButton.presets = {
     tokenId?: string;
     amount?: number;
     buttonText?: string;
-    onMintSuccess?: (txHash: string) => void;
+    onMintSuccess?: (txHash: string, tokenIds: string[]) => void;
     onMintError?: (error: string) => void;
   }): NFTMintFlowProps => ({
     contractAddress: props.contractAddress,
@@ -1262,4 +1211,37 @@ NFTMintButton.presets = {
     onMintSuccess: props.onMintSuccess,
     onMintError: props.onMintError,
   }),
+
+  /**
+   * Create a Zora 1155 NFT mint with proper configuration
+   * @example
+   * ```tsx
+   * <NFTMintButton {...NFTMintButton.presets.zora({
+   *   contractAddress: "0x...",
+   *   network: "base",
+   *   tokenId: "1"
+   * })} />
+   * ```
+   */
+  zora: (props: {
+    contractAddress: Address;
+    network: string;
+    tokenId: string;
+    mintReferral?: Address;
+    amount?: number;
+    buttonText?: string;
+    onMintSuccess?: (txHash: string, tokenIds: string[]) => void;
+    onMintError?: (error: string) => void;
+  }): NFTMintFlowProps => ({
+    contractAddress: props.contractAddress,
+    network: props.network,
+    zoraParams: {
+      tokenId: props.tokenId,
+      mintReferral: props.mintReferral,
+    },
+    amount: props.amount || 1,
+    buttonText: props.buttonText,
+    onMintSuccess: props.onMintSuccess,
+    onMintError: props.onMintError,
+  }),
 };
@@ -0,0 +1,319 @@
+"use client";
+
+/**
+ * @shadcn-registry
+ *
+ * IMPORTANT: This file is part of the shadcn registry.
+ * Always use double quotes (") instead of single quotes (') to prevent
+ * transformation issues during component installation.
+ *
+ * See: /CLAUDE.md#shadcn-cli-transformation-issues
+ */
+
+import * as React from "react";
+import {
+  useAccount,
+  useCapabilities,
+  useConfig,
+  useSendCalls,
+  useSendTransaction,
+  useSwitchChain,
+} from "wagmi";
+import { getAccount, waitForCallsStatus, waitForTransactionReceipt } from "wagmi/actions";
+import { formatEther } from "viem";
+import { CheckCircle, Layers, Loader2, Trash2, XCircle } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+import { getChainById } from "~/lib/chains";
+import type { MintParams } from "~/lib/types";
+import { prepareMint } from "~/lib/mint-prepare";
+import { buildApprovalCall, supportsAtomicBatch, type CartCall } from "~/lib/mint-cart";
+import { cartReducer, initialCartState, type CartItem } from "~/lib/mint-reducer";
+import { invalidatePriceCache } from "~/lib/detection-cache";
+import { parseError } from "~/lib/error-parser";
+
+export type MintCartItemInput = {
+  /** Stable id for the item; defaults to its position in the cart */
+  id?: string;
+  /** Display name, e.g. the edition title */
+  label?: string;
+  params: Omit<MintParams, "recipient">;
+};
+
+type NFTMintCartProps = {
+  /** Mints to check out together; the connected wallet receives every NFT */
+  items: MintCartItemInput[];
+  /** Called for each item once its mint confirms */
+  onItemMinted?: (id: string, txHash: string) => void;
+  /** Called when every item has either minted or failed */
+  onCheckoutComplete?: (items: CartItem[]) => void;
+  className?: string;
+};
+
+const toTxCall = (call: CartCall) => ({ to: call.to, data: call.data, value: call.value });
+
+/**
+ * NFT Mint Cart - check out several mints in one go
+ *
+ * Each item is prepared with prepareMint, ERC20 approvals are merged per token and spender,
+ * and the whole cart is sent as one EIP-5792 batch (wallet_sendCalls) when the wallet supports
+ * atomic batches. Otherwise approvals and mints are sent as sequential transactions.
+ *
+ * @example
+ * ```tsx
+ * <NFTMintCart
+ *   items={[
+ *     { label: "Edition #1", params: { contractAddress: "0x...", chainId: 8453, tokenId: "1", amount: 2 } },
+ *     { label: "Edition #2", params: { contractAddress: "0x...", chainId: 8453, tokenId: "2" } },
+ *   ]}
+ * />
+ * ```
+ */
+export function NFTMintCart({
+  items,
+  onItemMinted,
+  onCheckoutComplete,
+  className,
+}: NFTMintCartProps) {
+  const [state, dispatch] = React.useReducer(cartReducer, initialCartState);
+  const { step, approvals, mode, error } = state;
+
+  const config = useConfig();
+  const { address, isConnected } = useAccount();
+  const { data: capabilities } = useCapabilities({ account: address, query: { enabled: !!address } });
+  const { sendCallsAsync } = useSendCalls();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { switchChainAsync } = useSwitchChain();
+
+  // Re-prepare whenever the cart contents or the minter change
+  const itemsKey = JSON.stringify(
+    items.map((item, i) => [item.id ?? String(i), item.label, item.params]),
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+  );
+  const itemsRef = React.useRef(items);
+  itemsRef.current = items;
+
+  React.useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const cartItems = itemsRef.current.map((item, i) => ({
+      id: item.id ?? String(i),
+      label: item.label,
+      params: { ...item.params, recipient: address },
+    }));
+    dispatch({ type: "CART_PREPARE_START", payload: cartItems });
+
+    for (const item of cartItems) {
+      prepareMint(item.params)
+        .then((preparation) => {
+          if (!cancelled) dispatch({ type: "CART_ITEM_PREPARED", payload: { id: item.id, preparation } });
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            dispatch({ type: "CART_ITEM_ERROR", payload: { id: item.id, error: parseError(err, "mint").message } });
+          }
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemsKey, address]);
+
+  const readyItems = state.items.filter((item) => item.status === "ready");
+  const chainIds = [...new Set(readyItems.map((item) => item.params.chainId))];
+  const canBatch = chainIds.length === 1 && supportsAtomicBatch(capabilities, chainIds[0]);
+
+  const formatNative = (value: bigint, chainId: number) =>
+    `${formatEther(value)} ${getChainById(chainId).nativeCurrency.symbol}`;
+
+  // Native totals per chain, e.g. "0.002 ETH + 1.5 XDAI"
+  const totalsByChain = new Map<number, bigint>();
+  for (const item of readyItems) {
+    const value = item.preparation?.call.value ?? BigInt(0);
+    if (value > BigInt(0)) {
+      totalsByChain.set(item.params.chainId, (totalsByChain.get(item.params.chainId) ?? BigInt(0)) + value);
+    }
+  }
+  const displayTotal = totalsByChain.size > 0
+    ? [...totalsByChain].map(([chainId, value]) => formatNative(value, chainId)).join(" + ")
+    : "Free";
+
+  // Read the live chain: the sequential loop may have switched since the last render
+  const ensureChain = async (chainId: number) => {
+    if (getAccount(config).chainId !== chainId) {
+      await switchChainAsync({ chainId });
+    }
+  };
+
+  const checkoutBatch = async () => {
+    const chainId = chainIds[0];
+    dispatch({ type: "CART_SUBMIT_START", payload: "batch" });
+    try {
+      await ensureChain(chainId);
+      const calls = [
+        ...approvals.filter((a) => a.required && a.chainId === chainId).map(buildApprovalCall),
+        ...readyItems.map((item) => item.preparation!.call),
+      ].map(toTxCall);
+
+      const { id } = await sendCallsAsync({ calls, chainId });
+      dispatch({ type: "CART_BATCH_SUBMITTED", payload: id });
+
+      const result = await waitForCallsStatus(config, { id });
+      if (result.status !== "success") {
+        throw new Error("Batch reverted");
+      }
+      const txHash = result.receipts?.[result.receipts.length - 1]?.transactionHash;
+      dispatch({ type: "CART_BATCH_SUCCESS", payload: txHash });
+      for (const item of readyItems) {
+        invalidatePriceCache(item.params);
+        if (txHash) onItemMinted?.(item.id, txHash);
+      }
+    } catch (err) {
+      dispatch({ type: "CART_BATCH_FAILED", payload: parseError(err, "mint").message });
+    }
+  };
+
+  const checkoutSequential = async () => {
+    dispatch({ type: "CART_SUBMIT_START", payload: "sequential" });
+
+    // Approvals first: a failed approval leaves its mints unpayable
+    for (const approval of approvals.filter((a) => a.required)) {
+      const { chainId } = approval;
+      try {
+        await ensureChain(chainId);
+        const hash = await sendTransactionAsync({ ...toTxCall(buildApprovalCall(approval)), chainId });
+        await waitForTransactionReceipt(config, { hash, chainId });
+        dispatch({ type: "CART_APPROVAL_CONFIRMED", payload: approval });
+      } catch (err) {
+        dispatch({ type: "CART_BATCH_FAILED", payload: parseError(err, "approval").message });
+        return;
+      }
+    }
+
+    for (const item of readyItems) {
+      const { chainId } = item.params;
+      try {
+        await ensureChain(chainId);
+        const hash = await sendTransactionAsync({ ...toTxCall(item.preparation!.call), chainId });
+        dispatch({ type: "CART_ITEM_SUBMITTED", payload: { id: item.id, txHash: hash } });
+
+        const receipt = await waitForTransactionReceipt(config, { hash, chainId });
+        if (receipt.status !== "success") {
+          throw new Error("Mint transaction reverted");
+        }
+        dispatch({ type: "CART_ITEM_SUCCESS", payload: { id: item.id, txHash: hash } });
+        invalidatePriceCache(item.params);
+        onItemMinted?.(item.id, hash);
+      } catch (err) {
+        // Keep going: one failed edition shouldn't block the rest of the cart
+        dispatch({ type: "CART_ITEM_FAILED", payload: { id: item.id, error: parseError(err, "mint").message } });
+      }
+    }
+  };
+
+  React.useEffect(() => {
+    if (step === "done") {
+      onCheckoutComplete?.(state.items);
+    }
+    // Only fire on the transition to done
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step]);
+
+  const isBusy = step === "approving" || step === "submitting" || step === "preparing";
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <ul className="divide-y rounded-lg border">
+        {state.items.map((item) => (
+          <li key={item.id} className="flex items-center justify-between gap-3 p-3">
+            <div className="min-w-0">
+              <p className="font-semibold truncate">
+                {item.label || `${item.params.contractAddress.slice(0, 8)}…`}
+                {(item.params.amount ?? 1) > 1 && (
+                  <span className="ml-1 text-neutral-500 dark:text-neutral-400">× {item.params.amount}</span>
+                )}
+              </p>
+              <p
+                className={cn(
+                  "text-xs truncate",
+                  item.error ? "text-red-500" : "text-neutral-500 dark:text-neutral-400",
+                )}
+              >
+                {item.error ||
+                  (item.preparation
+                    ? item.preparation.call.value > BigInt(0)
+                      ? formatNative(item.preparation.call.value, item.params.chainId)
+                      : "Free"
+                    : "Preparing...")}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {(item.status === "preparing" || item.status === "submitted") && (
+                <Loader2 className="h-4 w-4 animate-spin text-neutral-500" />
+              )}
+              {item.status === "success" && <CheckCircle className="h-4 w-4 text-green-500" />}
+              {(item.status === "error" || item.status === "invalid") && (
+                <XCircle className="h-4 w-4 text-red-500" />
+              )}
+              {step === "review" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => dispatch({ type: "CART_REMOVE_ITEM", payload: item.id })}
+                  aria-label="Remove from cart"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {approvals.some((a) => a.required) && step !== "done" && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Includes {approvals.filter((a) => a.required).length} token approval
+          {approvals.filter((a) => a.required).length > 1 ? "s" : ""}
+        </p>
+      )}
+
+      <div className="flex justify-between items-center text-lg font-semibold">
+        <span>Total</span>
+        <span>{displayTotal}</span>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {step === "done" ? (
+        <p className="text-center text-sm text-neutral-500 dark:text-neutral-400">
+          {state.items.filter((item) => item.status === "success").length} of {state.items.length} minted
+        </p>
+      ) : (
+        <Button
+          size="lg"
+          className="w-full"
+          disabled={!isConnected || isBusy || readyItems.length === 0}
+          onClick={canBatch ? checkoutBatch : checkoutSequential}
+        >
+          {isBusy ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Layers className="h-4 w-4 mr-2" />
+          )}
+          {!isConnected
+            ? "Connect a wallet to check out"
+            : step === "approving"
+            ? "Approving tokens..."
+            : step === "submitting"
+            ? mode === "batch"
+              ? "Confirming batch..."
+              : "Minting..."
+            : `Mint ${readyItems.length} item${readyItems.length === 1 ? "" : "s"}${canBatch ? " in one transaction" : ""}`}
+        </Button>
+      )}
+    </div>
+  );
+}
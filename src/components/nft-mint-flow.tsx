@@ -13,6 +13,16 @@
 import * as React from "react";
 import { NFTCard } from "~/components/nft-card";
 import { NFTMintButton } from "~/components/nft-mint-button";
+import { findChainByName } from "~/lib/chains";
+import { formatCountdown } from "~/lib/mint-window";
+import { useMintWindow } from "~/hooks/use-mint-window";
+import { useMintContractInfo } from "~/hooks/use-mint-contract-info";
+import { useMintSupply } from "~/hooks/use-mint-supply";
+import { useUsdQuote, type QuoteAmount } from "~/hooks/use-price-quote";
+import { formatUsd, type PriceSource } from "~/lib/price-quote";
+import { formatEther, formatUnits, type Address } from "viem";
+import { Progress } from "~/components/ui/progress";
+import { Clock } from "lucide-react";
 
 interface NFTMintPageProps {
   /**
@@ -48,6 +58,35 @@ interface NFTMintPageProps {
     tokenId?: string;
   };
   
+  /**
+   * Parameters specific to Zora 1155 NFTs
+   * Required when minting Zora creator contracts (auto-detected)
+   *
+   * @example { tokenId: "1", mintReferral: "0x..." }
+   */
+  zoraParams?: {
+    /** Token ID of the Zora 1155 edition */
+    tokenId?: string;
+    /** Address credited with the Zora mint referral reward */
+    mintReferral?: `0x${string}`;
+  };
+  
+  /**
+   * Parameters for thirdweb Edition Drops (ERC1155)
+   *
+   * @example { tokenId: "0" }
+   */
+  thirdwebParams?: {
+    /** Token ID to claim (defaults to 0) */
+    tokenId?: string;
+  };
+  
+  /**
+   * Source for USD quotes shown next to the mint price.
+   * Defaults to CoinGecko; use createStaticPriceSource for fixed prices.
+   */
+  priceSource?: PriceSource;
+  
   /**
    * Custom text for the mint button
    * @default "Mint NFT"
@@ -87,11 +126,50 @@ export function NFTMintFlow({
   tokenId,
   network = "ethereum",
   manifoldParams,
+  zoraParams,
+  thirdwebParams,
+  priceSource,
   buttonText = "Mint NFT",
 }: NFTMintPageProps) {
   const [containerWidth, setContainerWidth] = React.useState(350);
+  const chain = findChainByName(network);
+  const chainId = chain?.id ?? 1;
+  const dropParams = {
+    contractAddress,
+    chainId,
+    instanceId: manifoldParams?.instanceId,
+    tokenId: manifoldParams?.tokenId ?? zoraParams?.tokenId ?? thirdwebParams?.tokenId,
+  };
+  const { contractInfo, priceData, refresh } = useMintContractInfo(dropParams);
+  const { window: mintWindow, status, secondsUntilStart } = useMintWindow(contractInfo);
+  const supply = useMintSupply(dropParams, contractInfo);
+  const isSoldOut = supply?.isSoldOut ?? false;
   const containerRef = React.useRef<HTMLDivElement>(null);
 
+  // Single-token price: ERC20 claim cost plus any native fee, or the native total
+  const erc20 = priceData?.erc20Details;
+  const erc20Cost = erc20 ? contractInfo?.claim?.cost ?? priceData?.mintPrice ?? BigInt(0) : BigInt(0);
+  const nativeSymbol = chain?.nativeCurrency.symbol ?? "ETH";
+  const quoteAmounts: QuoteAmount[] = priceData
+    ? [{ amount: priceData.totalCost, decimals: chain?.nativeCurrency.decimals ?? 18 }]
+    : [];
+  if (erc20) {
+    quoteAmounts.push({ amount: erc20Cost, decimals: erc20.decimals, token: erc20.address as Address });
+  }
+  const priceUsd = useUsdQuote(chainId, quoteAmounts, priceSource);
+
+  const displayPrice = () => {
+    if (!priceData) return null;
+    const native = priceData.totalCost > BigInt(0)
+      ? `${formatEther(priceData.totalCost)} ${nativeSymbol}`
+      : null;
+    if (erc20) {
+      const token = `${formatUnits(erc20Cost, erc20.decimals)} ${erc20.symbol}`;
+      return native ? `${token} + ${native}` : token;
+    }
+    return native ?? "Free";
+  };
+
   React.useEffect(() => {
     const updateWidth = () => {
       if (containerRef.current) {
@@ -120,11 +198,66 @@ export function NFTMintFlow({
         }}
       />
       
+      {supply && (
+        <div className="space-y-1">
+          {supply.max !== undefined && (
+            <Progress value={Math.min((supply.minted / supply.max) * 100, 100)} className="h-2" />
+          )}
+          <div className="flex justify-between text-xs text-neutral-500 dark:text-neutral-400">
+            <span>
+              {supply.minted.toLocaleString()}
+              {supply.max !== undefined ? ` / ${supply.max.toLocaleString()}` : ""} minted
+            </span>
+            {supply.max === undefined && <span>Open edition</span>}
+          </div>
+        </div>
+      )}
+
+      {status === "not-started" && !isSoldOut && (
+        <div className="flex items-center justify-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+          <Clock className="h-4 w-4" />
+          <span>
+            Mint opens in{" "}
+            <span className="font-semibold tabular-nums text-neutral-900 dark:text-neutral-50">
+              {formatCountdown(secondsUntilStart ?? 0)}
+            </span>
+          </span>
+        </div>
+      )}
+      {status === "ended" && !isSoldOut && (
+        <div className="flex items-center justify-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+          <Clock className="h-4 w-4" />
+          <span>
+            Mint ended
+            {mintWindow.end && ` ${new Date(mintWindow.end * 1000).toLocaleDateString()}`}
+          </span>
+        </div>
+      )}
+
+      {priceData && (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-neutral-500 dark:text-neutral-400">Price</span>
+          <span className="font-semibold">
+            {displayPrice()}
+            {priceUsd !== null && priceUsd > 0 && (
+              <span className="ml-1 font-normal text-neutral-500 dark:text-neutral-400">
+                (≈ {formatUsd(priceUsd)})
+              </span>
+            )}
+          </span>
+        </div>
+      )}
+
       <NFTMintButton
         contractAddress={contractAddress}
         network={network}
         manifoldParams={manifoldParams}
-        buttonText={buttonText}
+        zoraParams={zoraParams}
+        thirdwebParams={thirdwebParams}
+        buttonText={isSoldOut ? "Sold out" : status === "ended" ? "Mint Ended" : buttonText}
+        disabled={isSoldOut || status !== "open"}
+        priceSource={priceSource}
+        onMintSuccess={refresh}
         variant="default"
         size="lg"
         className="w-full"
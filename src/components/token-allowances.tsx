@@ -0,0 +1,111 @@
+"use client";
+
+import * as React from "react";
+import { useAccount, useConfig, useSwitchChain, useWriteContract } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import { formatUnits, maxUint256 } from "viem";
+import { Loader2, ShieldOff } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+import { formatAddress } from "~/lib/address-utils";
+import { getChainById } from "~/lib/chains";
+import { ERC20_ABI } from "~/lib/nft-standards";
+import { removeApprovalRecord } from "~/lib/approval-history";
+import { parseError } from "~/lib/error-parser";
+import { useTokenAllowances, type TokenAllowance } from "~/hooks/use-token-allowances";
+
+// Anything above half of uint256 is treated as an unlimited approval
+const UNLIMITED_THRESHOLD = maxUint256 / BigInt(2);
+
+const allowanceKey = (a: TokenAllowance) => `${a.chainId}:${a.token}:${a.spender}`;
+
+/**
+ * Lists the ERC20 approvals granted through the mint flow for the connected wallet,
+ * with one-click revoke (approve(spender, 0))
+ */
+export function TokenAllowances({ className }: { className?: string }) {
+  const config = useConfig();
+  const { address, chain } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const { writeContractAsync } = useWriteContract();
+  const { allowances, isLoading, refresh } = useTokenAllowances(address);
+  const [revoking, setRevoking] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Revoked or fully spent approvals drop off the list
+  const active = allowances.filter((a) => a.allowance === undefined || a.allowance > BigInt(0));
+
+  const handleRevoke = async (approval: TokenAllowance) => {
+    setRevoking(allowanceKey(approval));
+    setError(null);
+    try {
+      if (chain?.id !== approval.chainId) {
+        await switchChainAsync({ chainId: approval.chainId });
+      }
+      const hash = await writeContractAsync({
+        address: approval.token,
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [approval.spender, BigInt(0)],
+        chainId: approval.chainId,
+      });
+      await waitForTransactionReceipt(config, { hash, chainId: approval.chainId });
+      removeApprovalRecord(approval);
+    } catch (err) {
+      setError(parseError(err, "approval").message);
+      refresh();
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (!address || (!isLoading && active.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="text-sm font-semibold">Token approvals</p>
+      {isLoading && active.length === 0 ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-neutral-500" />
+        </div>
+      ) : (
+        <ul className="divide-y rounded-lg border text-sm">
+          {active.map((approval) => (
+            <li key={allowanceKey(approval)} className="flex items-center justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <p className="font-semibold">
+                  {approval.allowance === undefined
+                    ? "Unknown"
+                    : approval.allowance >= UNLIMITED_THRESHOLD
+                    ? "Unlimited"
+                    : formatUnits(approval.allowance, approval.decimals)}{" "}
+                  {approval.symbol}
+                </p>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                  {formatAddress(approval.spender)} on {getChainById(approval.chainId).name}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="shrink-0 gap-1"
+                disabled={revoking !== null}
+                onClick={() => handleRevoke(approval)}
+              >
+                {revoking === allowanceKey(approval) ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <ShieldOff className="h-3 w-3" />
+                )}
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
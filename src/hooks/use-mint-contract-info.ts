@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MintParams, MintPriceData, NFTContractInfo } from "~/lib/types";
+import { getPublicClient } from "~/lib/chains";
+import {
+  detectNFTProviderCached,
+  fetchPriceDataCached,
+  invalidatePriceCache,
+} from "~/lib/detection-cache";
+
+/**
+ * Hook to load a drop's contract info (provider plus claim/sale state) without a wallet
+ * @returns contractInfo, single-token priceData, loading state and a refresh function for after a mint
+ */
+export function useMintContractInfo(params: MintParams) {
+  const { contractAddress, chainId, instanceId, tokenId } = params;
+  const [contractInfo, setContractInfo] = useState<NFTContractInfo | null>(null);
+  const [priceData, setPriceData] = useState<MintPriceData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const mintParams = { contractAddress, chainId, instanceId, tokenId };
+
+    setIsLoading(true);
+    detectNFTProviderCached(mintParams)
+      .then(async (info) => {
+        const price = await fetchPriceDataCached(getPublicClient(chainId), mintParams, info);
+        if (cancelled) return;
+        setContractInfo(info);
+        setPriceData(price);
+      })
+      .catch((error) => {
+        console.error("Error loading mint contract info:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contractAddress, chainId, instanceId, tokenId, version]);
+
+  /**
+   * Re-read claim/sale state, e.g. after a successful mint
+   */
+  const refresh = useCallback(() => {
+    invalidatePriceCache({ contractAddress, chainId, instanceId, tokenId });
+    setVersion((v) => v + 1);
+  }, [contractAddress, chainId, instanceId, tokenId]);
+
+  return { contractInfo, priceData, isLoading, refresh };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MintParams, NFTContractInfo, SupplyInfo } from "~/lib/types";
+import { getPublicClient } from "~/lib/chains";
+import { fetchSupply } from "~/lib/supply";
+
+/**
+ * Hook to read minted / max supply for a drop
+ * @param params - Mint params identifying the drop
+ * @param contractInfo - Contract info with claim/sale state (see useMintContractInfo)
+ * @returns Supply info, or null when the contract exposes none
+ */
+export function useMintSupply(params: MintParams, contractInfo: NFTContractInfo | null) {
+  const { contractAddress, chainId, tokenId } = params;
+  const [supply, setSupply] = useState<SupplyInfo | null>(null);
+
+  useEffect(() => {
+    if (!contractInfo) return;
+    let cancelled = false;
+
+    fetchSupply(getPublicClient(chainId), { contractAddress, chainId, tokenId }, contractInfo)
+      .then((result) => {
+        if (!cancelled) setSupply(result);
+      })
+      .catch((error) => {
+        console.error("Error loading supply:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contractAddress, chainId, tokenId, contractInfo]);
+
+  return supply;
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { NFTContractInfo } from "~/lib/types";
+import {
+  getMintWindow,
+  getMintWindowStatus,
+  type MintWindow,
+  type MintWindowStatus,
+} from "~/lib/mint-window";
+
+/**
+ * Seconds left until a unix timestamp, ticking once per second.
+ * Returns undefined when there is no target.
+ */
+export function useCountdown(target?: number) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    if (target === undefined) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [target]);
+
+  return target === undefined ? undefined : Math.max(target - now, 0);
+}
+
+/**
+ * Hook to track a drop's mint window before any wallet interaction
+ * @param contractInfo - Contract info with claim/sale state (see useMintContractInfo)
+ * @returns The mint window, its live status and seconds until it opens
+ */
+export function useMintWindow(contractInfo: NFTContractInfo | null) {
+  const mintWindow: MintWindow = useMemo(
+    () => (contractInfo ? getMintWindow(contractInfo) : {}),
+    [contractInfo],
+  );
+
+  const secondsUntilStart = useCountdown(mintWindow.start);
+  const secondsUntilEnd = useCountdown(mintWindow.end);
+
+  // Re-derived every tick so the status flips when the countdown runs out
+  const status: MintWindowStatus =
+    secondsUntilStart !== undefined && secondsUntilStart > 0
+      ? "not-started"
+      : getMintWindowStatus(mintWindow);
+
+  return {
+    window: mintWindow,
+    status,
+    secondsUntilStart,
+    secondsUntilEnd,
+  };
+}
@@ -0,0 +1,1355 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState, useSyncExternalStore } from "react";
+import {
+  useAccount,
+  useCapabilities,
+  useConfig,
+  useConnect,
+  useSendCalls,
+  useSendTransaction,
+  useSignTypedData,
+  useWaitForTransactionReceipt,
+  useWriteContract,
+  useSwitchChain,
+} from "wagmi";
+import { waitForCallsStatus } from "wagmi/actions";
+import { encodeFunctionData, type Abi, type Address, type Hex } from "viem";
+import { farcasterFrame } from "@farcaster/miniapp-wagmi-connector";
+import {
+  validateParameters,
+  getClientForChain,
+} from "~/lib/provider-detector";
+import {
+  applyAllowlistPrice,
+  buildMintCall,
+  buildPermit2MintCall,
+  calculateTotalCost,
+  canMintToRecipient,
+  getProviderConfig,
+} from "~/lib/provider-configs";
+import {
+  buildPermitCall,
+  getPermitDeadline,
+  getPermitPlan,
+  getPermitTypedData,
+  type PermitPlan,
+} from "~/lib/permit";
+import { supportsAtomicBatch } from "~/lib/mint-cart";
+import { fetchWalletMintLimit } from "~/lib/wallet-limits";
+import { estimateMintGas, getCostBreakdown } from "~/lib/cost-breakdown";
+import { getCrossChainMintCall } from "~/lib/cross-chain-mint";
+import { getMintWindow, getMintWindowStatus } from "~/lib/mint-window";
+import { useCountdown } from "~/hooks/use-mint-window";
+import {
+  detectNFTProviderCached,
+  fetchPriceDataCached,
+  invalidatePriceCache,
+} from "~/lib/detection-cache";
+import {
+  mintReducer,
+  initialState,
+  getApprovalAmount,
+  getErc20Cost,
+  type ApprovalMode,
+  type MintState,
+} from "~/lib/mint-reducer";
+import { recordApproval } from "~/lib/approval-history";
+import { fetchMintedTokens, getMintedTokens } from "~/lib/mint-receipt";
+import {
+  getPendingMint,
+  isMintDropped,
+  getMintSender,
+  loadMintHistory,
+  recordMint,
+  settleMint,
+  type MintHistorySync,
+  type MintRecord,
+} from "~/lib/mint-history";
+import {
+  getPendingTxStatus,
+  getSpeedUpRequest,
+  TX_STALL_TIMEOUT_MS,
+} from "~/lib/pending-tx";
+import type { AllowlistEntry, GasEstimate, MintParams, MintPriceData, NFTContractInfo, SignedPermit } from "~/lib/types";
+import { getPaymentSpender, prepareMintViaApi } from "~/lib/mint-prepare";
+import {
+  createApiProofSource,
+  requiresMerkleProof,
+  type ProofSource,
+} from "~/lib/allowlist";
+import {
+  parseError,
+  type ParsedError,
+} from "~/lib/error-parser";
+import {
+  defaultMintAnalytics,
+  getMintAnalyticsEvent,
+  type MintAnalytics,
+} from "~/lib/mint-analytics";
+import {
+  createMintTracer,
+  isMintTraceEnabled,
+  type TraceSpanHandle,
+} from "~/lib/mint-trace";
+
+export type UseNFTMintParams = Pick<
+  MintParams,
+  "contractAddress" | "chainId" | "instanceId" | "tokenId" | "mintReferral"
+> & {
+  /** Initial quantity. Defaults to 1 */
+  amount?: number;
+  /** Mint to this address instead of the connected wallet, where the provider supports it */
+  recipient?: Address;
+  /** Source for allowlist merkle proofs. Defaults to the /api/allowlist route */
+  proofSource?: ProofSource;
+  /** Run detection and pricing via /api/mint/prepare (or a custom endpoint) */
+  prepareEndpoint?: boolean | string;
+  /** Build a Daimo Pay cross-chain call when the provider supports it. Defaults to true */
+  crossChainPay?: boolean;
+  /** Remote copy of the wallet's mint history, in addition to localStorage */
+  historySync?: MintHistorySync;
+  /** Called with the mint tx hash and the token IDs the recipient received */
+  onMintSuccess?: (txHash: string, tokenIds: string[]) => void;
+  /** Called with a human-readable message when the mint (not an approval) fails */
+  onMintError?: (error: string) => void;
+  /** Record a structured trace of the flow. Defaults to the ?mintDebug query param */
+  debug?: boolean;
+  /** Sink for funnel events at each step transition. Defaults to PostHog */
+  analytics?: MintAnalytics;
+};
+
+/**
+ * Headless NFT mint flow: provider detection, pricing, allowlists, wallet limits, ERC20 approvals
+ * and permits, simulation, and transaction tracking (resume, replacement, speed-up).
+ * NFTMintButton is one UI on top of it; build custom mint UIs from the same state and actions.
+ *
+ * @example
+ * ```tsx
+ * const { state, breakdown, prepare, approve, mint, reset } = useNFTMint({
+ *   contractAddress: "0x...",
+ *   chainId: 8453,
+ * });
+ * ```
+ *
+ * @returns mintReducer state, cost breakdown, derived flags and the flow actions
+ */
+export function useNFTMint(params: UseNFTMintParams) {
+  const {
+    contractAddress,
+    chainId,
+    amount = 1,
+    proofSource,
+    prepareEndpoint,
+    crossChainPay = true,
+    historySync,
+    onMintSuccess,
+    onMintError,
+    debug,
+    analytics = defaultMintAnalytics,
+  } = params;
+
+  const [state, dispatch] = useReducer(mintReducer, {
+    ...initialState,
+    quantity: amount,
+  });
+  const [parsedError, setParsedError] = useState<ParsedError | null>(null);
+
+  // Silent unless debugging; spans re-render consumers such as the diagnostics panel
+  const tracer = useMemo(() => createMintTracer(isMintTraceEnabled(debug)), [debug]);
+  const trace = useSyncExternalStore(tracer.subscribe, tracer.getSpans, tracer.getSpans);
+
+  // Funnel events on step transitions, tagged with the contract, chain and detected provider
+  const prevStateRef = useRef(state);
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+    const event = getMintAnalyticsEvent(prev, state, parsedError?.type);
+    if (!event) return;
+    analytics.track(event, {
+      contract_address: contractAddress,
+      chain_id: chainId,
+      provider: state.contractInfo?.provider,
+    });
+  }, [state, parsedError, analytics, contractAddress, chainId]);
+
+  // Destructure commonly used values
+  const {
+    step,
+    contractInfo,
+    priceData,
+    txHash,
+    txType,
+    isLoading,
+    allowlistEntry,
+    quantity,
+    walletLimit,
+    mintWindow,
+    gasEstimate,
+    approvalMode,
+    mintedTokens,
+  } = state;
+  const { erc20Details, unitPrice } = priceData;
+
+  const { isConnected, address, chain } = useAccount();
+  const { connect } = useConnect();
+  const { switchChain } = useSwitchChain();
+  const {
+    writeContract,
+    isPending: isWritePending,
+    data: writeData,
+    error: writeError,
+  } = useWriteContract();
+  const config = useConfig();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { sendCallsAsync } = useSendCalls();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { data: capabilities } = useCapabilities({ account: address, query: { enabled: !!address } });
+  const canBatch = supportsAtomicBatch(capabilities, chainId);
+
+  // Mint to an explicit recipient (e.g. a gift) only where the provider supports it
+  const recipient =
+    params.recipient && contractInfo && canMintToRecipient(contractInfo) ? params.recipient : address;
+
+  // Build mint params
+  const mintParams: MintParams = useMemo(
+    () => ({
+      contractAddress,
+      chainId,
+      provider: undefined, // Let auto-detection handle this
+      amount: quantity,
+      instanceId: params.instanceId,
+      tokenId: params.tokenId,
+      recipient,
+      account: address,
+      merkleProof: allowlistEntry?.proof,
+      allowlistEntry,
+      mintReferral: params.mintReferral,
+    }),
+    [contractAddress, chainId, quantity, params.instanceId, params.tokenId, params.mintReferral, recipient, address, allowlistEntry],
+  );
+
+  const resolvedProofSource = useMemo(
+    () => proofSource || createApiProofSource(),
+    [proofSource],
+  );
+
+  // Params the prepare route estimated gas for, so the client doesn't estimate them again
+  const preparedGasParamsRef = useRef<MintParams | null>(null);
+
+  // Pending mint picked back up from the history after the app was closed
+  const [resumedMint, setResumedMint] = useState<MintRecord | null>(null);
+  // While waiting, the reducer holds the live hash (it moves on when a tx is sped up)
+  const watchedHash =
+    (txType && txHash ? (txHash as Hex) : undefined) ?? writeData ?? resumedMint?.txHash;
+  const historySyncRef = useRef(historySync);
+  historySyncRef.current = historySync;
+
+  // Watch for transaction completion
+  const {
+    data: txReceipt,
+    isSuccess: isTxSuccess,
+    isError: isTxError,
+    error: txError,
+  } = useWaitForTransactionReceipt({
+    hash: watchedHash,
+    onReplaced: (replacement) => {
+      tracer.log(`Transaction ${replacement.reason}`, {
+        from: replacement.replacedTransaction.hash,
+        to: replacement.transaction.hash,
+      });
+      if (address && txType === "mint") {
+        settleMint(address, replacement.replacedTransaction.hash, "replaced", undefined, historySyncRef.current);
+      }
+      dispatch({
+        type: "TX_REPLACED",
+        payload: { txHash: replacement.transaction.hash, reason: replacement.reason },
+      });
+    },
+  });
+
+  // Get provider config
+  const providerConfig = contractInfo
+    ? getProviderConfig(contractInfo.provider, contractInfo, mintParams)
+    : null;
+
+  // Check if user is on the correct network
+  const isCorrectNetwork = chain?.id === chainId;
+
+  // Handle transaction status updates
+  useEffect(() => {
+    if (writeError) {
+      const parsed = parseError(writeError, txType || "mint");
+
+      // Show retry option for user rejections
+      if (parsed.type === "user-rejected") {
+        setParsedError(parsed);
+        dispatch({
+          type: "TX_ERROR",
+          payload: "Transaction cancelled by user",
+        });
+        return;
+      }
+
+      setParsedError(parsed);
+      dispatch({ type: "TX_ERROR", payload: writeError.message });
+      if (txType === "mint") {
+        onMintError?.(writeError.message);
+      }
+    }
+    if (isTxError && txError) {
+      const parsed = parseError(txError, txType || "mint");
+      setParsedError(parsed);
+      dispatch({ type: "TX_ERROR", payload: txError.message });
+      if (txType === "mint") {
+        if (address && watchedHash) {
+          settleMint(address, watchedHash, "failed", undefined, historySyncRef.current);
+        }
+        onMintError?.(txError.message);
+      }
+    }
+    if (watchedHash && watchedHash !== txHash && !isTxSuccess && !isTxError) {
+      // Transaction submitted, waiting for confirmation
+      tracer.log(`${txType ?? "mint"} transaction submitted`, watchedHash);
+      if (txType === "approval") {
+        dispatch({ type: "APPROVE_TX_SUBMITTED", payload: watchedHash });
+      } else if (txType === "mint") {
+        dispatch({ type: "MINT_TX_SUBMITTED", payload: watchedHash });
+      }
+    }
+    if (isTxSuccess && watchedHash) {
+      tracer.log("Receipt", {
+        blockNumber: txReceipt?.blockNumber,
+        gasUsed: txReceipt?.gasUsed,
+        status: txReceipt?.status,
+      });
+      if (txType === "approval") {
+        dispatch({ type: "APPROVE_SUCCESS" });
+      } else if (txType === "mint") {
+        // A resumed gift mint went to the recipient stored with it
+        const mintRecipient = resumedMint?.recipient ?? recipient;
+        const mintedTokens =
+          txReceipt && mintRecipient
+            ? getMintedTokens(txReceipt.logs, { contractAddress, recipient: mintRecipient })
+            : [];
+        dispatch({ type: "TX_SUCCESS", payload: { txHash: watchedHash, mintedTokens } });
+        onMintSuccess?.(watchedHash, mintedTokens.map((token) => token.tokenId));
+      }
+    }
+  }, [
+    isTxSuccess,
+    watchedHash,
+    txReceipt,
+    recipient,
+    resumedMint,
+    address,
+    contractAddress,
+    txHash,
+    onMintSuccess,
+    isTxError,
+    txError,
+    onMintError,
+    writeError,
+    txType,
+    tracer,
+  ]);
+
+  // Wallet prompt until the hash comes back; the confirm span then runs until the tx settles
+  const writeSpanRef = useRef<TraceSpanHandle | null>(null);
+  const confirmSpanRef = useRef<TraceSpanHandle | null>(null);
+  const startWriteSpan = () => {
+    writeSpanRef.current?.end();
+    writeSpanRef.current = tracer.start("write");
+  };
+  const stepError = state.error;
+  useEffect(() => {
+    if (step === "approving" || step === "minting") return;
+    const failure = step === "error" || step === "dropped" ? stepError ?? step : undefined;
+    writeSpanRef.current?.end(failure);
+    writeSpanRef.current = null;
+
+    if (step === "waiting" || step === "stalled") {
+      if (!confirmSpanRef.current) {
+        confirmSpanRef.current = tracer.start("confirm");
+        tracer.log("Waiting for confirmation", txHash);
+      }
+      return;
+    }
+    confirmSpanRef.current?.end(failure);
+    confirmSpanRef.current = null;
+  }, [step, stepError, txHash, tracer]);
+
+  // Allowance, supply and claim counts changed onchain
+  const { instanceId, tokenId } = mintParams;
+  useEffect(() => {
+    if (isTxSuccess) {
+      invalidatePriceCache({ contractAddress, chainId, instanceId, tokenId });
+    }
+  }, [isTxSuccess, contractAddress, chainId, instanceId, tokenId]);
+
+  // No receipt after a while: check whether the tx is still in the mempool or was dropped
+  useEffect(() => {
+    if ((step !== "waiting" && step !== "stalled") || !txHash) return;
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const status = await getPendingTxStatus(chainId, txHash as Hex);
+        if (cancelled) return;
+        if (status === "dropped") {
+          tracer.log(`Transaction ${txHash} was dropped`, undefined, "warn");
+          if (address && txType === "mint") {
+            settleMint(address, txHash as Hex, "failed", undefined, historySyncRef.current);
+          }
+          dispatch({
+            type: "TX_DROPPED",
+            payload: "The transaction is no longer pending. It may have been dropped by the network or your wallet.",
+          });
+        } else if (status === "pending") {
+          tracer.log(`Transaction ${txHash} is still pending`, undefined, "warn");
+          dispatch({ type: "TX_STALLED" });
+        }
+      } catch (err) {
+        tracer.log("Pending tx status check failed", err, "warn");
+      }
+    };
+
+    // Check once after the timeout, then keep polling while stalled
+    if (step === "waiting") {
+      const timer = setTimeout(check, TX_STALL_TIMEOUT_MS);
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+      };
+    }
+    const interval = setInterval(check, 30000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [step, txHash, txType, chainId, address, tracer]);
+
+  const [isSpeedingUp, setIsSpeedingUp] = useState(false);
+  const [speedUpError, setSpeedUpError] = useState<string | null>(null);
+  // Set once a permit was refused or reverted, so the approve step isn't replaced again
+  const [permitUnavailable, setPermitUnavailable] = useState(false);
+
+  // Resend the stalled tx with the same nonce and higher fees
+  const speedUp = async () => {
+    if (!txHash) return;
+    setIsSpeedingUp(true);
+    setSpeedUpError(null);
+    try {
+      const request = await getSpeedUpRequest(chainId, txHash as Hex);
+      // Mined or dropped in the meantime; the watchers will pick it up
+      if (!request) return;
+
+      tracer.log(`Speeding up ${txHash}`, request);
+      const hash = await sendTransactionAsync({ ...request, chainId });
+      if (address && txType === "mint") {
+        settleMint(address, txHash as Hex, "replaced", undefined, historySyncRef.current);
+      }
+      dispatch({ type: "TX_REPLACED", payload: { txHash: hash, reason: "repriced" } });
+    } catch (err) {
+      const parsed = parseError(err, txType || "mint");
+      if (parsed.type !== "user-rejected") {
+        setSpeedUpError(parsed.message);
+      }
+    } finally {
+      setIsSpeedingUp(false);
+    }
+  };
+
+  // Persist mint txs per wallet so a closed app can't lose a pending hash
+  useEffect(() => {
+    if (!address || !txHash) return;
+    const base = {
+      txHash: txHash as Hex,
+      chainId,
+      owner: address,
+      recipient: resumedMint?.recipient ?? recipient ?? address,
+      contractAddress,
+      instanceId,
+      tokenId,
+      quantity: resumedMint?.quantity ?? quantity,
+    };
+    if (step === "waiting" && txType === "mint") {
+      recordMint({ ...base, status: "pending", submittedAt: Date.now() }, historySyncRef.current);
+    } else if (step === "success") {
+      recordMint(
+        {
+          ...base,
+          status: "success",
+          mintedTokenIds: mintedTokens.map((token) => token.tokenId),
+          submittedAt: Date.now(),
+          settledAt: Date.now(),
+        },
+        historySyncRef.current,
+      );
+    }
+  }, [step, txHash, txType, address, chainId, resumedMint, recipient, contractAddress, instanceId, tokenId, quantity, mintedTokens]);
+
+  /**
+   * Pick up an unconfirmed mint of this drop from the wallet's history and watch it again.
+   * Returns true when a pending mint was resumed.
+   */
+  const resumePendingMint = useCallback(async () => {
+    if (!address) return false;
+    if (historySyncRef.current) {
+      await loadMintHistory(address, historySyncRef.current);
+    }
+    const pending = getPendingMint(address, { chainId, contractAddress, instanceId, tokenId });
+    if (!pending) return false;
+
+    if (await isMintDropped(pending)) {
+      tracer.log(`Pending mint ${pending.txHash} was dropped`, undefined, "warn");
+      settleMint(address, pending.txHash, "failed", undefined, historySyncRef.current);
+      return false;
+    }
+
+    // Stored hashes may be forged; only watch a tx the node confirms this wallet sent
+    const sender = await getMintSender(pending);
+    if (sender === "other") {
+      tracer.log(`Pending mint ${pending.txHash} was not sent by ${address}`, undefined, "warn");
+      settleMint(address, pending.txHash, "failed", undefined, historySyncRef.current);
+      return false;
+    }
+    if (sender === "unknown") {
+      // Left pending: it may still propagate, or isMintDropped settles it next time
+      tracer.log(`Pending mint ${pending.txHash} is not known to the node yet`, undefined, "warn");
+      return false;
+    }
+
+    tracer.log(`Resuming pending mint ${pending.txHash}`, pending);
+    setResumedMint(pending);
+    dispatch({ type: "MINT_TX_SUBMITTED", payload: pending.txHash });
+    return true;
+  }, [address, chainId, contractAddress, instanceId, tokenId, tracer]);
+
+  // Reopened app: resume watching a mint that was still pending when it closed
+  useEffect(() => {
+    resumePendingMint().catch((err) => {
+      console.warn("[Mint history] Could not resume pending mint:", err);
+    });
+  }, [resumePendingMint]);
+
+
+  /**
+   * Back to the initial state, keeping the chosen quantity and approval mode
+   */
+  const reset = useCallback(() => {
+    setResumedMint(null);
+    setSpeedUpError(null);
+    setPermitUnavailable(false);
+    dispatch({ type: "RESET" });
+    setParsedError(null);
+  }, []);
+
+  const switchNetwork = async () => {
+    try {
+      await switchChain({ chainId });
+    } catch (err) {
+      // Network switch failed - user likely rejected or wallet doesn't support it
+    }
+  };
+
+  // Look up the minter's allowlist entry; null means not eligible
+  const lookupAllowlist = useCallback(
+    async (minter: Address): Promise<AllowlistEntry | null> => {
+      return resolvedProofSource({
+        contractAddress,
+        chainId,
+        address: minter,
+        instanceId: mintParams.instanceId,
+        tokenId: mintParams.tokenId,
+      });
+    },
+    [resolvedProofSource, contractAddress, chainId, mintParams.instanceId, mintParams.tokenId],
+  );
+
+  const notEligibleMessage = (minter: Address) =>
+    `${minter.slice(0, 6)}...${minter.slice(-4)} is not on the allowlist for this mint`;
+
+  // Detect NFT provider and validate
+  const detectAndValidate = async () => {
+    tracer.clear();
+    dispatch({ type: "DETECT_START" });
+
+    const detectSpan = tracer.start("detect");
+    tracer.log("Mint params", mintParams);
+
+    try {
+      let info: NFTContractInfo;
+      let fetchedPriceData: MintPriceData;
+      let preparedGas: GasEstimate | undefined;
+
+      if (prepareEndpoint) {
+        // Thin client: detection, validation and pricing run on the server
+        tracer.log("Preparing mint via API");
+        const preparation = await prepareMintViaApi(
+          mintParams,
+          typeof prepareEndpoint === "string" ? prepareEndpoint : undefined,
+        );
+        tracer.log("Preparation result", preparation);
+
+        if (!preparation.isValid) {
+          detectSpan.end(preparation.errors.join(", "));
+          dispatch({ type: "VALIDATION_ERROR", payload: preparation.errors });
+          return;
+        }
+        detectSpan.end();
+        info = preparation.contractInfo;
+        fetchedPriceData = preparation.priceData;
+        preparedGas = preparation.breakdown.gas;
+      } else {
+        info = await detectNFTProviderCached(mintParams);
+        tracer.log("Detected provider info", info);
+
+        const validation = validateParameters(mintParams, info);
+        if (!validation.isValid) {
+          detectSpan.end(validation.errors.join(", "));
+          dispatch({ type: "VALIDATION_ERROR", payload: validation.errors });
+          return;
+        }
+        detectSpan.end();
+
+        // Fetch optimized price data
+        const client = getClientForChain(chainId);
+        fetchedPriceData = await tracer.span("price", () =>
+          fetchPriceDataCached(client, mintParams, info),
+        );
+        tracer.log("Price data", fetchedPriceData);
+
+        // Pricing can rule the mint out too (e.g. no supported Zora minter)
+        const saleValidation = validateParameters(mintParams, info);
+        if (!saleValidation.isValid) {
+          dispatch({ type: "VALIDATION_ERROR", payload: saleValidation.errors });
+          return;
+        }
+      }
+
+      // Update contract info with ERC20 details and claim data
+      if (fetchedPriceData.erc20Details) {
+        info.erc20Token = fetchedPriceData.erc20Details
+          .address as `0x${string}`;
+        info.erc20Symbol = fetchedPriceData.erc20Details.symbol;
+        info.erc20Decimals = fetchedPriceData.erc20Details.decimals;
+      }
+
+      // Add claim data if available
+      if (fetchedPriceData.claim) {
+        info.claim = fetchedPriceData.claim;
+      }
+
+      const detectedPriceData = {
+        mintPrice: fetchedPriceData.mintPrice,
+        unitPrice: fetchedPriceData.unitPrice,
+        protocolFee: fetchedPriceData.protocolFee,
+        totalCost: fetchedPriceData.totalCost,
+        erc20Details: fetchedPriceData.erc20Details,
+      };
+
+      // Show not-started / ended before any allowlist lookup or wallet prompt
+      const mintWindow = getMintWindow(info);
+      const windowStatus = getMintWindowStatus(mintWindow);
+      if (windowStatus !== "open") {
+        tracer.log(`Mint window is ${windowStatus}`, mintWindow, "warn");
+        dispatch({
+          type: "DETECT_SUCCESS",
+          payload: { contractInfo: info, priceData: detectedPriceData },
+        });
+        dispatch({
+          type: windowStatus === "ended" ? "MINT_ENDED" : "MINT_NOT_STARTED",
+          payload: mintWindow,
+        });
+        return;
+      }
+
+      // Merkle-gated claims: resolve the allowlist proof before any wallet prompt
+      let totalCost = fetchedPriceData.totalCost;
+      if (requiresMerkleProof(info) && address) {
+        tracer.log("Claim is merkle-gated, looking up allowlist proof");
+        const entry = await lookupAllowlist(address);
+        if (!entry) {
+          tracer.log("Minter is not on the allowlist", { address }, "warn");
+          dispatch({ type: "NOT_ELIGIBLE", payload: notEligibleMessage(address) });
+          return;
+        }
+        dispatch({ type: "ALLOWLIST_RESOLVED", payload: entry });
+
+        // Allowlist price overrides the claim condition price
+        if (entry.pricePerToken !== undefined) {
+          totalCost =
+            calculateTotalCost({ ...mintParams, allowlistEntry: entry }, info, fetchedPriceData) ??
+            totalCost;
+        }
+      }
+
+      dispatch({
+        type: "DETECT_SUCCESS",
+        payload: {
+          contractInfo: info,
+          priceData: { ...detectedPriceData, totalCost },
+        },
+      });
+
+      // The server already estimated gas for these params; skip the client RPC round trip
+      if (preparedGas) {
+        preparedGasParamsRef.current = mintParams;
+        dispatch({ type: "GAS_ESTIMATED", payload: preparedGas });
+      }
+    } catch (err) {
+      detectSpan.end(err);
+      tracer.log("Detection failed", err, "error");
+      dispatch({
+        type: "DETECT_ERROR",
+        payload: "Failed to detect NFT contract type",
+      });
+    }
+  };
+
+  // Check allowance only (without re-detecting everything)
+  const checkAllowanceOnly = useCallback(async () => {
+    if (!contractInfo || !erc20Details || !address) return;
+
+    try {
+      const client = getClientForChain(chainId);
+      const spenderAddress =
+        contractInfo.provider === "manifold" && contractInfo.extensionAddress
+          ? contractInfo.extensionAddress
+          : contractAddress;
+
+      const allowance = await tracer.span("allowance", () => client.readContract({
+        address: erc20Details.address as `0x${string}`,
+        abi: [
+          {
+            name: "allowance",
+            type: "function",
+            inputs: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+            ],
+            outputs: [{ type: "uint256" }],
+            stateMutability: "view",
+          },
+        ],
+        functionName: "allowance",
+        args: [address, spenderAddress],
+      }));
+      tracer.log(`Allowance for ${spenderAddress}`, allowance);
+
+      dispatch({ type: "UPDATE_ALLOWANCE", payload: allowance as bigint });
+    } catch (err) {
+      // Allowance check failed - will proceed without pre-checked allowance
+    }
+  }, [contractInfo, erc20Details, address, chainId, contractAddress, tracer]);
+
+  // Re-check allowance after wallet connection
+  useEffect(() => {
+    if (
+      isConnected &&
+      address &&
+      erc20Details &&
+      erc20Details.allowance === undefined
+    ) {
+      checkAllowanceOnly();
+    }
+  }, [isConnected, address, erc20Details, checkAllowanceOnly]);
+
+  // Check allowlist eligibility after wallet connection
+  useEffect(() => {
+    if (
+      step !== "sheet" ||
+      !isConnected ||
+      !address ||
+      !contractInfo ||
+      allowlistEntry ||
+      !requiresMerkleProof(contractInfo)
+    ) {
+      return;
+    }
+
+    lookupAllowlist(address)
+      .then((entry) => {
+        if (!entry) {
+          dispatch({ type: "NOT_ELIGIBLE", payload: notEligibleMessage(address) });
+          return;
+        }
+        dispatch({ type: "ALLOWLIST_RESOLVED", payload: entry });
+
+        // Allowlist price overrides the claim condition price
+        if (entry.pricePerToken !== undefined) {
+          const totalCost = calculateTotalCost(
+            { ...mintParams, allowlistEntry: entry },
+            contractInfo,
+            { unitPrice },
+          );
+          if (totalCost !== null) {
+            dispatch({ type: "SET_QUANTITY", payload: { quantity, totalCost } });
+          }
+        }
+      })
+      .catch(() => {
+        // Lookup failed - handleMint retries before prompting the wallet
+      });
+  }, [step, isConnected, address, contractInfo, allowlistEntry, lookupAllowlist, mintParams, unitPrice, quantity]);
+
+  // Read the minter's remaining per-wallet allowance once claim data is loaded
+  useEffect(() => {
+    if (step !== "sheet" || !address || !contractInfo) return;
+
+    let cancelled = false;
+    const client = getClientForChain(chainId);
+    fetchWalletMintLimit(
+      client,
+      { contractAddress, chainId, instanceId, tokenId, recipient: address, allowlistEntry },
+      contractInfo,
+    ).then((limit) => {
+      if (cancelled) return;
+      dispatch({ type: "WALLET_LIMIT_RESOLVED", payload: limit });
+      if (limit.remaining === 0) {
+        dispatch({
+          type: "NOT_ELIGIBLE",
+          payload: `This wallet already minted the maximum of ${limit.limit} per wallet`,
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, address, contractInfo, chainId, contractAddress, instanceId, tokenId, allowlistEntry]);
+
+  const crossChainCall = useMemo(() => {
+    if (!crossChainPay || !contractInfo || !address) return null;
+    try {
+      return getCrossChainMintCall(mintParams, contractInfo, priceData);
+    } catch (err) {
+      console.warn("[Cross-chain] Could not build Daimo Pay mint call:", err);
+      return null;
+    }
+  }, [crossChainPay, contractInfo, address, mintParams, priceData]);
+
+  const onPaymentStarted = useCallback(() => {
+    tracer.log("Cross-chain payment started");
+    dispatch({ type: "CROSS_CHAIN_PAYMENT_STARTED" });
+  }, [tracer]);
+
+  const onPaymentCompleted = useCallback(
+    async (hash: string) => {
+      tracer.log("Cross-chain mint completed", hash);
+      // Daimo reports the destination-chain mint tx; read its receipt for the token IDs
+      const mintedTokens = recipient
+        ? await fetchMintedTokens(chainId, hash as Hex, { contractAddress, recipient })
+        : [];
+      dispatch({ type: "TX_SUCCESS", payload: { txHash: hash, mintedTokens } });
+      invalidatePriceCache({ contractAddress, chainId, instanceId, tokenId });
+      onMintSuccess?.(hash, mintedTokens.map((token) => token.tokenId));
+    },
+    [contractAddress, chainId, instanceId, tokenId, recipient, onMintSuccess, tracer],
+  );
+
+  const onPaymentBounced = useCallback(() => {
+    const message = "The mint call reverted on the target chain. Your payment was refunded.";
+    tracer.log("Cross-chain mint bounced, payment refunded", undefined, "error");
+    dispatch({ type: "TX_ERROR", payload: message });
+    onMintError?.(message);
+  }, [onMintError, tracer]);
+
+  // Remember confirmed approvals so the minter can review and revoke them later
+  useEffect(() => {
+    if (!isTxSuccess || txType !== "approval" || !address || !contractInfo || !erc20Details) return;
+    recordApproval({
+      chainId,
+      owner: address,
+      token: erc20Details.address as Address,
+      symbol: erc20Details.symbol,
+      decimals: erc20Details.decimals,
+      spender: getPaymentSpender(mintParams, contractInfo),
+      amount: getApprovalAmount(contractInfo, { unitPrice }, quantity, approvalMode),
+      txHash: writeData,
+      approvedAt: Date.now(),
+    });
+  }, [isTxSuccess, txType, address, contractInfo, erc20Details, unitPrice, chainId, mintParams, quantity, approvalMode, writeData]);
+
+  // Look for a signature-based alternative to the approve transaction
+  const needsApproval = !!erc20Details?.needsApproval;
+  const hasPermit = !!erc20Details?.permit;
+  const erc20Token = erc20Details?.address as Address | undefined;
+  const provider = contractInfo?.provider;
+  // Permit2 transfers are capped at the signed amount, so the plan depends on it
+  const permitAmount = contractInfo
+    ? getErc20Cost(contractInfo, applyAllowlistPrice(mintParams, contractInfo, priceData), quantity)
+    : BigInt(0);
+  useEffect(() => {
+    if (!address || !provider || !erc20Token || !needsApproval || permitUnavailable) return;
+
+    let cancelled = false;
+    tracer
+      .span("allowance", () =>
+        getPermitPlan(getClientForChain(chainId), {
+          token: erc20Token,
+          owner: address,
+          chainId,
+          amount: permitAmount,
+          provider,
+          canBatch,
+        }),
+      )
+      .then((plan) => {
+        if (cancelled) return;
+        if (plan) {
+          tracer.log(`${plan.kind} permit replaces the approve transaction`, plan);
+          dispatch({ type: "PERMIT_AVAILABLE", payload: plan });
+        } else if (hasPermit) {
+          dispatch({ type: "PERMIT_FALLBACK" });
+        }
+      })
+      .catch((err) => {
+        tracer.log("Permit support check failed, using classic approval", err, "warn");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, provider, erc20Token, needsApproval, hasPermit, permitUnavailable, permitAmount, chainId, canBatch, tracer]);
+
+  // Estimate gas for the current quantity once the minter can actually send the call
+  useEffect(() => {
+    if (
+      step !== "sheet" ||
+      !address ||
+      !contractInfo ||
+      erc20Details?.needsApproval ||
+      (requiresMerkleProof(contractInfo) && !allowlistEntry) ||
+      preparedGasParamsRef.current === mintParams
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    let mintCall;
+    try {
+      mintCall = buildMintCall(mintParams, contractInfo, priceData);
+    } catch {
+      return;
+    }
+    estimateMintGas(getClientForChain(chainId), mintCall, address).then((gas) => {
+      if (!cancelled) dispatch({ type: "GAS_ESTIMATED", payload: gas ?? undefined });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, address, contractInfo, erc20Details?.needsApproval, allowlistEntry, mintParams, priceData, chainId]);
+
+  // Open the sheet once the countdown runs out
+  const secondsUntilStart = useCountdown(step === "not-started" ? mintWindow?.start : undefined);
+  useEffect(() => {
+    if (secondsUntilStart === 0) {
+      dispatch({ type: "MINT_WINDOW_OPENED" });
+    }
+  }, [secondsUntilStart]);
+
+  // Manifold merkle claims mint one allowlist index per transaction
+  const isSingleMintOnly =
+    contractInfo?.provider === "manifold" && requiresMerkleProof(contractInfo);
+  const maxQuantity = isSingleMintOnly
+    ? 1
+    : walletLimit?.remaining !== undefined
+    ? Math.max(walletLimit.remaining, 1)
+    : undefined;
+  const canChangeQuantity =
+    !!contractInfo && priceData.unitPrice !== undefined && maxQuantity !== 1;
+
+  const setQuantity = useCallback(
+    (next: number) => {
+      if (!contractInfo) return;
+      const clamped = Math.max(1, maxQuantity ? Math.min(next, maxQuantity) : next);
+      const totalCost = calculateTotalCost(
+        { ...mintParams, amount: clamped },
+        contractInfo,
+        priceData,
+      );
+      if (totalCost === null) return;
+      dispatch({ type: "SET_QUANTITY", payload: { quantity: clamped, totalCost } });
+    },
+    [contractInfo, maxQuantity, mintParams, priceData],
+  );
+
+  // Pull the quantity back under the wallet limit once it is known
+  useEffect(() => {
+    if (maxQuantity !== undefined && quantity > maxQuantity) {
+      setQuantity(maxQuantity);
+    }
+  }, [maxQuantity, quantity, setQuantity]);
+
+
+  /**
+   * Resume a pending mint of this drop if there is one, otherwise detect the provider,
+   * validate params and load pricing
+   */
+  const prepare = async () => {
+    // Closing the sheet mid-wait drops the watcher; show the pending mint instead of a second one
+    if (await resumePendingMint().catch(() => false)) return;
+    await detectAndValidate();
+  };
+
+  const setApprovalMode = useCallback((mode: ApprovalMode) => {
+    dispatch({ type: "SET_APPROVAL_MODE", payload: mode });
+  }, []);
+
+  const connectWallet = async () => {
+    try {
+      dispatch({ type: "CONNECT_START" });
+      const connector = farcasterFrame();
+      connect({ connector });
+    } catch (err) {
+      handleError(err, "Failed to connect wallet");
+    }
+  };
+
+  const approve = async () => {
+    if (!isConnected || !erc20Details || !contractInfo) {
+      dispatch({
+        type: "TX_ERROR",
+        payload: "Missing required information for approval",
+      });
+      return;
+    }
+
+    try {
+      dispatch({ type: "APPROVE_START" });
+
+      // For Manifold, approve the extension contract, not the NFT contract
+      const spenderAddress = getPaymentSpender(mintParams, contractInfo);
+
+      // Exact cost for the selected quantity, or unlimited when the minter opted in
+      startWriteSpan();
+      await writeContract({
+        address: erc20Details.address as `0x${string}`,
+        abi: [
+          {
+            name: "approve",
+            type: "function",
+            inputs: [
+              { name: "spender", type: "address" },
+              { name: "amount", type: "uint256" },
+            ],
+            outputs: [{ type: "bool" }],
+            stateMutability: "nonpayable",
+          },
+        ],
+        functionName: "approve",
+        args: [spenderAddress, getApprovalAmount(contractInfo, priceData, quantity, approvalMode)],
+        chainId,
+      });
+
+      // The transaction has been initiated - we'll track it via writeData in the effect
+    } catch (err) {
+      handleError(err, "Approval failed", "approval");
+    }
+  };
+
+  const mint = async () => {
+    if (!isConnected) {
+      await connectWallet();
+      return;
+    }
+
+    if (!contractInfo || !providerConfig) {
+      tracer.log("Missing required info", { contractInfo: !!contractInfo, providerConfig: !!providerConfig }, "error");
+      dispatch({
+        type: "TX_ERROR",
+        payload: "Contract information not available",
+      });
+      return;
+    }
+
+    try {
+      dispatch({ type: "MINT_START" });
+
+      // Merkle-gated claims need the allowlist proof before prompting the wallet
+      let params = mintParams;
+      if (requiresMerkleProof(contractInfo) && !allowlistEntry && address) {
+        const entry = await lookupAllowlist(address);
+        if (!entry) {
+          dispatch({ type: "NOT_ELIGIBLE", payload: notEligibleMessage(address) });
+          return;
+        }
+        dispatch({ type: "ALLOWLIST_RESOLVED", payload: entry });
+        params = { ...mintParams, merkleProof: entry.proof, allowlistEntry: entry };
+      }
+      // The mint value and ERC20 amount must use the allowlist price once the entry is known
+      const mintPriceData = applyAllowlistPrice(params, contractInfo, priceData);
+
+      // Sign a permit instead of sending a separate approve transaction
+      if (erc20Details?.needsApproval && erc20Details.permit) {
+        await mintWithPermit(params, mintPriceData, erc20Details.permit);
+        return;
+      }
+
+      const mintCall = buildMintCall(params, contractInfo, mintPriceData);
+
+      // Adapters may return a loosely typed ABI; viem only needs it to be an Abi here
+      const contractConfig = {
+        ...mintCall,
+        abi: mintCall.abi as Abi,
+        chainId,
+      };
+
+      await tracer.span("simulate", async () => {
+        tracer.log("Mint call", {
+          provider: contractInfo.provider,
+          address: contractConfig.address,
+          functionName: contractConfig.functionName,
+          args: contractConfig.args,
+          value: contractConfig.value,
+          chainId,
+        });
+
+        // Validate contract state before minting
+        try {
+          const client = getClientForChain(chainId);
+
+          // Check basic contract existence
+          const bytecode = await client.getBytecode({ address: contractConfig.address });
+          if (!bytecode || bytecode === "0x") {
+            throw new Error("Contract not found at the specified address");
+          }
+
+          // Validate user's balance for payment
+          if (contractConfig.value > 0n) {
+            const balance = await client.getBalance({ address: address! });
+            tracer.log("Balance check", { balance, required: contractConfig.value });
+
+            if (balance < contractConfig.value) {
+              throw new Error(`Insufficient balance. Need ${contractConfig.value.toString()} wei but only have ${balance.toString()} wei`);
+            }
+          }
+
+          // Try to validate the function exists in the contract
+          try {
+            await client.readContract({
+              address: contractConfig.address,
+              abi: [{
+                name: contractConfig.functionName,
+                type: "function",
+                inputs: [],
+                outputs: [],
+                stateMutability: "view"
+              }],
+              functionName: contractConfig.functionName,
+            });
+          } catch (readError) {
+            // Expected for payable functions
+          }
+
+        } catch (validationError) {
+          throw new Error(
+            `Contract validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`,
+            { cause: validationError },
+          );
+        }
+
+        // Simulate the transaction first to catch errors early
+        try {
+          const client = getClientForChain(chainId);
+          const simulation = await client.simulateContract({
+            address: contractConfig.address,
+            abi: contractConfig.abi,
+            functionName: contractConfig.functionName,
+            args: contractConfig.args,
+            value: contractConfig.value,
+            account: address,
+          });
+          tracer.log("Simulation result", simulation.result);
+        } catch (simError) {
+          // Keep the viem error as the cause so parseError can decode the revert
+          throw new Error(
+            `Transaction simulation failed: ${simError instanceof Error ? simError.message : String(simError)}`,
+            { cause: simError },
+          );
+        }
+      });
+
+      // Execute the transaction
+      startWriteSpan();
+      await writeContract(contractConfig);
+
+      // The transaction has been initiated - we'll track it via writeData in the effect
+    } catch (err) {
+      handleError(err, "Mint transaction failed", "mint");
+    }
+  };
+
+  const mintWithPermit = async (params: MintParams, mintPriceData: MintState["priceData"], plan: PermitPlan) => {
+    if (!address || !contractInfo || !erc20Details) return;
+
+    const token = erc20Details.address as Address;
+    const spender = getPaymentSpender(params, contractInfo);
+    const amount = getErc20Cost(contractInfo, mintPriceData, quantity);
+    const deadline = getPermitDeadline();
+
+    // Wallets without typed-data signing or batches, and tokens that reject the permit,
+    // fall back to the approve step for the rest of the session
+    const fallBack = (err: unknown) => {
+      if (parseError(err, "approval").type === "user-rejected") throw err;
+      tracer.log("Permit unavailable, falling back to approve", err, "warn");
+      setPermitUnavailable(true);
+      dispatch({ type: "PERMIT_FALLBACK" });
+    };
+
+    let signature: Hex;
+    startWriteSpan();
+    try {
+      tracer.log("Requesting permit signature");
+      signature = await signTypedDataAsync({
+        account: address,
+        ...getPermitTypedData(plan, { chainId, token, owner: address, spender, amount, deadline }),
+      });
+    } catch (err) {
+      fallBack(err);
+      return;
+    }
+
+    const permit: SignedPermit = {
+      kind: plan.kind,
+      token,
+      owner: address,
+      spender,
+      amount,
+      deadline,
+      nonce: plan.nonce,
+      signature,
+    };
+
+    // The minter pulls the payment with the Permit2 signature; tracked like any mint tx via writeData
+    if (plan.kind === "permit2") {
+      const permitMint = buildPermit2MintCall(params, contractInfo, mintPriceData, permit);
+      if (!permitMint) {
+        fallBack(new Error(`${contractInfo.provider} does not accept Permit2 transfers`));
+        return;
+      }
+      writeContract({ ...permitMint, abi: permitMint.abi as Abi, chainId });
+      return;
+    }
+
+    // Redeem the permit and mint in one atomic EIP-5792 batch
+    const mintCall = buildMintCall(params, contractInfo, mintPriceData);
+    let batchId: string;
+    try {
+      tracer.log("Sending permit + mint batch");
+      ({ id: batchId } = await sendCallsAsync({
+        chainId,
+        calls: [
+          buildPermitCall(permit),
+          {
+            to: mintCall.address,
+            data: encodeFunctionData({
+              abi: mintCall.abi,
+              functionName: mintCall.functionName,
+              args: mintCall.args,
+            }),
+            value: mintCall.value,
+          },
+        ],
+      }));
+    } catch (err) {
+      fallBack(err);
+      return;
+    }
+
+    tracer.log("Batch submitted", batchId);
+    dispatch({ type: "MINT_BATCH_SUBMITTED" });
+    // Polls getCallsStatus until the wallet reports the batch's receipts
+    const result = await waitForCallsStatus(config, { id: batchId });
+    if (result.status !== "success") {
+      // The batch is atomic, so nothing was spent; the classic approval still works
+      fallBack(new Error("Permit and mint batch reverted"));
+      return;
+    }
+    const hash = result.receipts?.[result.receipts.length - 1]?.transactionHash;
+    if (!hash) {
+      throw new Error("Wallet reported the permit and mint batch without a transaction receipt");
+    }
+    // Hand the tx to the single-tx path: mint history, pending-tx tracking and the receipt watcher
+    tracer.log("Batch landed", hash);
+    dispatch({ type: "MINT_TX_SUBMITTED", payload: hash });
+  };
+
+  // Centralized error handler
+  const handleError = (
+    error: unknown,
+    context: string,
+    transactionType?: "approval" | "mint",
+  ) => {
+    tracer.log(context, error, "error");
+
+    let userMessage = error instanceof Error ? error.message : `${context}`;
+
+    // Enhance error messages with debugging context
+    if (userMessage.includes("Transaction simulation failed")) {
+      userMessage = "🧪 Transaction would fail: " + userMessage.replace("Transaction simulation failed: ", "");
+    } else if (userMessage.includes("Contract validation failed")) {
+      userMessage = "🔍 Contract issue: " + userMessage.replace("Contract validation failed: ", "");
+    } else if (userMessage.includes("Insufficient balance")) {
+      userMessage = "💰 " + userMessage;
+    } else if (userMessage.includes("Contract not found")) {
+      userMessage = "📋 " + userMessage;
+    } else if (userMessage.includes("user rejected")) {
+      userMessage = "❌ Transaction cancelled by user";
+    }
+
+    // Parse the error for better UX
+    const parsed = parseError(error, transactionType || "mint");
+    setParsedError(parsed);
+
+    dispatch({ type: "TX_ERROR", payload: userMessage });
+    // Use explicit transaction type if provided, otherwise fall back to state
+    if ((transactionType || txType) === "mint") {
+      onMintError?.(userMessage);
+    }
+  };
+
+
+  const breakdown = contractInfo
+    ? getCostBreakdown(mintParams, contractInfo, applyAllowlistPrice(mintParams, contractInfo, priceData), gasEstimate)
+    : null;
+
+  const isReadyToMint =
+    isConnected &&
+    !!contractInfo &&
+    !isLoading &&
+    step === "sheet" &&
+    (!erc20Details || !erc20Details.needsApproval || !!erc20Details.permit);
+
+  return {
+    state,
+    dispatch,
+    mintParams,
+    recipient,
+    breakdown,
+    parsedError,
+    providerConfig,
+    tracer,
+    trace,
+    isCorrectNetwork,
+    isWritePending,
+    isReadyToMint,
+    maxQuantity,
+    canChangeQuantity,
+    secondsUntilStart,
+    resumedMint,
+    isSpeedingUp,
+    speedUpError,
+    crossChainCall,
+    crossChain: { onPaymentStarted, onPaymentCompleted, onPaymentBounced },
+    prepare,
+    approve,
+    mint,
+    reset,
+    setQuantity,
+    setApprovalMode,
+    speedUp,
+    switchNetwork,
+    connectWallet,
+  };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Address } from "viem";
+import { defaultPriceSource, getUsdPrice, toUsd, type PriceSource } from "~/lib/price-quote";
+
+/**
+ * Raw amount to quote; native currency when token is omitted
+ */
+export type QuoteAmount = {
+  amount: bigint;
+  decimals: number;
+  token?: Address;
+};
+
+/**
+ * Hook to convert one or more mint cost components into a combined USD value
+ * @param chainId - Chain the amounts are paid on
+ * @param amounts - Native and/or ERC20 amounts to sum
+ * @param source - Price source (defaults to CoinGecko)
+ * @returns USD value, or null while loading or when any asset is unpriced
+ */
+export function useUsdQuote(
+  chainId: number,
+  amounts: QuoteAmount[],
+  source: PriceSource = defaultPriceSource,
+) {
+  const [usd, setUsd] = useState<number | null>(null);
+
+  // Stable dependency for the amounts array
+  const amountsKey = amounts
+    .map(({ amount, decimals, token }) => `${token ?? "native"}:${decimals}:${amount}`)
+    .join(",");
+
+  useEffect(() => {
+    const parsed = amountsKey
+      .split(",")
+      .filter(Boolean)
+      .map((entry) => {
+        const [token, decimals, amount] = entry.split(":");
+        return {
+          token: token === "native" ? undefined : (token as Address),
+          decimals: Number(decimals),
+          amount: BigInt(amount),
+        };
+      });
+    if (parsed.length === 0) {
+      setUsd(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      parsed.map(async ({ token, decimals, amount }) => {
+        if (amount === BigInt(0)) return 0;
+        const price = await getUsdPrice({ chainId, token }, source);
+        return price === null ? null : toUsd(amount, decimals, price);
+      }),
+    )
+      .then((values) => {
+        if (cancelled) return;
+        setUsd(values.some((v) => v === null) ? null : values.reduce<number>((sum, v) => sum + (v ?? 0), 0));
+      })
+      .catch((error) => {
+        console.warn("[Price Quote] Failed to load USD price:", error);
+        if (!cancelled) setUsd(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, amountsKey, source]);
+
+  return usd;
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Address } from "viem";
+import { getPublicClient } from "~/lib/chains";
+import { ERC20_ABI } from "~/lib/nft-standards";
+import {
+  APPROVALS_CHANGED_EVENT,
+  getApprovalRecords,
+  type ApprovalRecord,
+} from "~/lib/approval-history";
+
+export type TokenAllowance = ApprovalRecord & {
+  /** Live on-chain allowance; undefined when the read failed */
+  allowance?: bigint;
+};
+
+/**
+ * Hook to list the ERC20 approvals this app created for a wallet, with live allowances
+ * @param owner - Wallet address
+ * @returns allowances, loading state and a refresh function
+ */
+export function useTokenAllowances(owner: Address | undefined) {
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  useEffect(() => {
+    window.addEventListener(APPROVALS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(APPROVALS_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!owner) {
+      setAllowances([]);
+      return;
+    }
+    let cancelled = false;
+    const records = getApprovalRecords(owner);
+
+    setIsLoading(true);
+    Promise.all(
+      records.map(async (record) => {
+        try {
+          const allowance = await getPublicClient(record.chainId).readContract({
+            address: record.token,
+            abi: ERC20_ABI,
+            functionName: "allowance",
+            args: [record.owner, record.spender],
+          });
+          return { ...record, allowance };
+        } catch (error) {
+          console.warn(`[Allowances] Failed to read ${record.symbol} allowance:`, error);
+          return { ...record, allowance: undefined };
+        }
+      }),
+    )
+      .then((result) => {
+        if (!cancelled) setAllowances(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, version]);
+
+  return { allowances, isLoading, refresh };
+}
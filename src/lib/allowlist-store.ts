@@ -0,0 +1,56 @@
+import { createSignedCacheStore, type DetectionCacheStore } from "~/lib/detection-cache";
+import { getAllowlistKey, type RawAllowlist } from "~/lib/allowlist";
+
+let store: DetectionCacheStore | null | undefined;
+
+/**
+ * Signed kv store for allowlists. kv is writable with the public anon key, so entries carry
+ * an HMAC with ALLOWLIST_SECRET and anything unsigned reads as missing. Server-only.
+ */
+async function getAllowlistStore(): Promise<DetectionCacheStore | null> {
+  if (store !== undefined) return store;
+  const secret = process.env.ALLOWLIST_SECRET;
+  if (!secret) {
+    store = null;
+    return null;
+  }
+  const { kv } = await import("~/lib/kv");
+  store = createSignedCacheStore(kv, secret);
+  return store;
+}
+
+/**
+ * Whether ALLOWLIST_SECRET is set, i.e. allowlists can be read and written
+ */
+export async function isAllowlistStoreConfigured(): Promise<boolean> {
+  return (await getAllowlistStore()) !== null;
+}
+
+/**
+ * Read a drop's allowlist. Returns null when missing or when the signature doesn't verify.
+ */
+export async function readAllowlist(
+  chainId: number,
+  contractAddress: string,
+  dropId?: string,
+): Promise<RawAllowlist | null> {
+  const signed = await getAllowlistStore();
+  if (!signed) return null;
+  const payload = await signed.get(getAllowlistKey(chainId, contractAddress, dropId));
+  return typeof payload === "string" ? (JSON.parse(payload) as RawAllowlist) : null;
+}
+
+/**
+ * Store a drop's allowlist, signed so the allowlist route will accept it.
+ * Run from a trusted script or server route that holds ALLOWLIST_SECRET.
+ */
+export async function writeAllowlist(
+  chainId: number,
+  contractAddress: string,
+  allowlist: RawAllowlist,
+  dropId?: string,
+): Promise<void> {
+  const signed = await getAllowlistStore();
+  if (!signed) throw new Error("ALLOWLIST_SECRET is not set");
+  await signed.set(getAllowlistKey(chainId, contractAddress, dropId), JSON.stringify(allowlist));
+}
@@ -0,0 +1,127 @@
+import type { Address } from "viem";
+import type { AllowlistEntry, MintParams, NFTContractInfo } from "~/lib/types";
+
+const ZERO_MERKLE_ROOT =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * Lookup passed to a proof source for a single minter
+ */
+export type ProofLookup = Pick<MintParams, "contractAddress" | "chainId" | "instanceId" | "tokenId"> & {
+  address: Address;
+};
+
+/**
+ * Resolves the allowlist entry (merkle proof and limits) for a minter.
+ * Returns null when the address is not on the allowlist.
+ */
+export type ProofSource = (lookup: ProofLookup) => Promise<AllowlistEntry | null>;
+
+/**
+ * JSON shape of an allowlist entry (bigints as decimal strings)
+ */
+export type RawAllowlistEntry = {
+  proof: string[];
+  mintIndex?: number;
+  quantityLimitPerWallet?: string;
+  pricePerToken?: string;
+  currency?: string;
+};
+
+/**
+ * JSON allowlist keyed by minter address (case-insensitive)
+ */
+export type RawAllowlist = Record<string, RawAllowlistEntry>;
+
+/**
+ * Check whether the active Manifold claim or thirdweb claim condition is merkle-gated
+ */
+export function requiresMerkleProof(contractInfo: NFTContractInfo): boolean {
+  const merkleRoot =
+    contractInfo.claim?.merkleRoot || contractInfo.claimCondition?.merkleRoot;
+  return !!merkleRoot && merkleRoot !== ZERO_MERKLE_ROOT;
+}
+
+/**
+ * Convert a JSON allowlist entry into an AllowlistEntry
+ */
+export function parseAllowlistEntry(raw: RawAllowlistEntry): AllowlistEntry {
+  return {
+    proof: raw.proof as `0x${string}`[],
+    mintIndex: raw.mintIndex,
+    quantityLimitPerWallet:
+      raw.quantityLimitPerWallet !== undefined ? BigInt(raw.quantityLimitPerWallet) : undefined,
+    pricePerToken: raw.pricePerToken !== undefined ? BigInt(raw.pricePerToken) : undefined,
+    currency: raw.currency as Address | undefined,
+  };
+}
+
+/**
+ * Find an address in a JSON allowlist
+ */
+export function findAllowlistEntry(allowlist: RawAllowlist, address: Address): AllowlistEntry | null {
+  const normalized = address.toLowerCase();
+  const key = Object.keys(allowlist).find((k) => k.toLowerCase() === normalized);
+  return key ? parseAllowlistEntry(allowlist[key]) : null;
+}
+
+/**
+ * Proof source backed by a static JSON allowlist, either inline or served from a URL
+ * (e.g. a file in /public/allowlists)
+ *
+ * @example
+ * createStaticProofSource("/allowlists/brunch-drop.json")
+ */
+export function createStaticProofSource(allowlist: RawAllowlist | string): ProofSource {
+  let cached: Promise<RawAllowlist> | null = null;
+
+  const load = () => {
+    if (typeof allowlist !== "string") return Promise.resolve(allowlist);
+    if (!cached) {
+      cached = fetch(allowlist).then((res) => {
+        if (!res.ok) throw new Error(`Failed to load allowlist from ${allowlist}`);
+        return res.json() as Promise<RawAllowlist>;
+      });
+      // Allow retrying after a failed load
+      cached.catch(() => {
+        cached = null;
+      });
+    }
+    return cached;
+  };
+
+  return async ({ address }) => findAllowlistEntry(await load(), address);
+}
+
+/**
+ * Proof source backed by the /api/allowlist route (allowlists signed into kv, see writeAllowlist)
+ */
+export function createApiProofSource(endpoint = "/api/allowlist"): ProofSource {
+  return async ({ contractAddress, chainId, address, instanceId, tokenId }) => {
+    const query = new URLSearchParams({
+      contractAddress,
+      chainId: String(chainId),
+      address,
+    });
+    if (instanceId) query.set("instanceId", instanceId);
+    if (tokenId) query.set("tokenId", tokenId);
+
+    const res = await fetch(`${endpoint}?${query.toString()}`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Allowlist lookup failed with status ${res.status}`);
+
+    const { entry } = await res.json();
+    return entry ? parseAllowlistEntry(entry) : null;
+  };
+}
+
+/**
+ * kv key holding the signed JSON allowlist for a drop
+ */
+export function getAllowlistKey(
+  chainId: number,
+  contractAddress: string,
+  dropId?: string,
+): string {
+  return `allowlist:${chainId}:${contractAddress.toLowerCase()}${dropId ? `:${dropId}` : ""}`;
+}
@@ -0,0 +1,68 @@
+import type { Address } from "viem";
+import { parseWithBigInt, stringifyWithBigInt } from "~/lib/utils";
+
+const STORAGE_KEY = "nft-mint:approvals";
+
+/** Window event fired whenever the stored approvals change */
+export const APPROVALS_CHANGED_EVENT = "nft-mint:approvals-changed";
+
+/**
+ * ERC20 approval granted through the mint flow, kept so the minter can review and revoke it
+ */
+export type ApprovalRecord = {
+  chainId: number;
+  owner: Address;
+  token: Address;
+  symbol: string;
+  decimals: number;
+  spender: Address;
+  amount: bigint;
+  txHash?: string;
+  approvedAt: number;
+};
+
+const sameApproval = (a: ApprovalRecord, b: Pick<ApprovalRecord, "chainId" | "owner" | "token" | "spender">) =>
+  a.chainId === b.chainId &&
+  a.owner.toLowerCase() === b.owner.toLowerCase() &&
+  a.token.toLowerCase() === b.token.toLowerCase() &&
+  a.spender.toLowerCase() === b.spender.toLowerCase();
+
+function readRecords(): ApprovalRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseWithBigInt<ApprovalRecord[]>(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRecords(records: ApprovalRecord[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, stringifyWithBigInt(records));
+  window.dispatchEvent(new Event(APPROVALS_CHANGED_EVENT));
+}
+
+/**
+ * Store an approval, replacing any earlier one for the same token and spender
+ */
+export function recordApproval(record: ApprovalRecord): void {
+  writeRecords([...readRecords().filter((r) => !sameApproval(r, record)), record]);
+}
+
+/**
+ * Approvals created by this app, optionally for a single owner
+ */
+export function getApprovalRecords(owner?: Address): ApprovalRecord[] {
+  const records = readRecords();
+  return owner ? records.filter((r) => r.owner.toLowerCase() === owner.toLowerCase()) : records;
+}
+
+/**
+ * Forget an approval (e.g. after it has been revoked)
+ */
+export function removeApprovalRecord(
+  record: Pick<ApprovalRecord, "chainId" | "owner" | "token" | "spender">,
+): void {
+  writeRecords(readRecords().filter((r) => !sameApproval(r, record)));
+}
@@ -1,5 +1,12 @@
-import { http, type Chain, type PublicClient, createPublicClient } from "viem";
+import {
+  http,
+  type Chain,
+  type ContractFunctionParameters,
+  type PublicClient,
+  createPublicClient,
+} from "viem";
 import * as chains from "viem/chains";
+import { traceRpcCall } from "~/lib/mint-trace";
 
 /**
  * Supported chains configuration with Alchemy RPC support
@@ -45,20 +52,21 @@ export function getChainById(chainId: number): Chain {
 
 /**
  * Get HTTP transport with optional Alchemy RPC URL
- * Falls back to public RPC if no Alchemy key is available
+ * Server code prefers the private ALCHEMY_KEY; falls back to public RPC if no key is available
  */
 export function getTransport(chainId: number) {
-  const alchemyKey = process.env.NEXT_PUBLIC_ALCHEMY_KEY;
+  const alchemyKey = process.env.ALCHEMY_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY;
   const config = SUPPORTED_CHAINS.find((c) => c.id === chainId);
 
   if (config?.alchemyPrefix && alchemyKey) {
     return http(
       `https://${config.alchemyPrefix}.g.alchemy.com/v2/${alchemyKey}`,
+      { onFetchRequest: traceRpcCall },
     );
   }
 
   // Fallback to default public RPC
-  return http();
+  return http(undefined, { onFetchRequest: traceRpcCall });
 }
 
 /**
@@ -71,6 +79,40 @@ export function getPublicClient(chainId: number): PublicClient {
   }) as PublicClient;
 }
 
+export type BatchReadResult =
+  | { status: "success"; result: unknown }
+  | { status: "failure"; error: Error };
+
+/**
+ * Read many contract functions in one round trip via Multicall3.
+ * Falls back to individual calls on chains without Multicall3 (or if the batch itself fails).
+ * Results are returned in call order; failed calls never throw.
+ */
+export async function batchReadContracts(
+  client: PublicClient,
+  contracts: readonly ContractFunctionParameters[],
+): Promise<BatchReadResult[]> {
+  if (client.chain?.contracts?.multicall3) {
+    try {
+      return (await client.multicall({
+        contracts: contracts as ContractFunctionParameters[],
+        allowFailure: true,
+      })) as BatchReadResult[];
+    } catch (error) {
+      console.warn("[Multicall] Batch failed, falling back to individual calls:", error);
+    }
+  }
+
+  return Promise.all(
+    contracts.map((contract) =>
+      client.readContract(contract as any).then(
+        (result): BatchReadResult => ({ status: "success", result }),
+        (error): BatchReadResult => ({ status: "failure", error }),
+      ),
+    ),
+  );
+}
+
 /**
  * Find chain by network name (case-insensitive)
  */
@@ -89,7 +131,9 @@ export function findChainByName(networkName: string): Chain | undefined {
     degen: 666666666,
     gnosis: 100,
     optimism: 10,
+    "op mainnet": 10,
     "optimism sepolia": 11155420,
+    "op sepolia": 11155420,
     polygon: 137,
     sepolia: 11155111,
     "ethereum sepolia": 11155111,
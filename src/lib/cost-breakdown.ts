@@ -0,0 +1,89 @@
+import { encodeFunctionData, type Address, type PublicClient } from "viem";
+import type {
+  GasEstimate,
+  MintCall,
+  MintCostBreakdown,
+  MintParams,
+  MintPriceData,
+  NFTContractInfo,
+} from "~/lib/types";
+
+/**
+ * Split the mint cost into token price and fees for the selected quantity
+ */
+export function getCostBreakdown(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: Pick<MintPriceData, "mintPrice" | "unitPrice" | "totalCost" | "protocolFee" | "erc20Details">,
+  gas?: GasEstimate,
+): MintCostBreakdown {
+  const quantity = BigInt(params.amount || 1);
+  const zero = BigInt(0);
+
+  if (contractInfo.provider === "manifold") {
+    // mintPrice is MINT_FEE (or MINT_FEE_MERKLE); the claim cost is ETH or ERC20
+    const mintFee = (priceData.mintPrice || zero) * quantity;
+    const claimCost = (contractInfo.claim?.cost || zero) * quantity;
+    return priceData.erc20Details
+      ? { tokenPrice: zero, mintFee, protocolFee: zero, erc20Amount: claimCost, gas }
+      : { tokenPrice: priceData.totalCost - mintFee, mintFee, protocolFee: zero, gas };
+  }
+
+  if (contractInfo.provider === "zora" && contractInfo.zoraSale) {
+    const mintFee = contractInfo.zoraSale.mintFee * quantity;
+    return { tokenPrice: priceData.totalCost - mintFee, mintFee, protocolFee: zero, gas };
+  }
+
+  if (contractInfo.provider === "nfts2me" && priceData.protocolFee) {
+    const protocolFee = priceData.protocolFee * quantity;
+    return { tokenPrice: priceData.totalCost - protocolFee, mintFee: zero, protocolFee, gas };
+  }
+
+  if (priceData.erc20Details) {
+    // thirdweb ERC20 claims pay the full price in the token
+    return {
+      tokenPrice: zero,
+      mintFee: zero,
+      protocolFee: zero,
+      erc20Amount: (priceData.unitPrice ?? priceData.mintPrice ?? zero) * quantity,
+      gas,
+    };
+  }
+
+  return { tokenPrice: priceData.totalCost, mintFee: zero, protocolFee: zero, gas };
+}
+
+/**
+ * Estimate gas for the mint call at current fee levels (maxFeePerGas, or gasPrice on legacy chains).
+ * Returns null when estimation fails (e.g. the call would revert).
+ */
+export async function estimateMintGas(
+  client: PublicClient,
+  mintCall: MintCall,
+  account: Address,
+): Promise<GasEstimate | null> {
+  try {
+    const [gasLimit, fees] = await Promise.all([
+      client.estimateGas({
+        account,
+        to: mintCall.address,
+        data: encodeFunctionData({
+          abi: mintCall.abi,
+          functionName: mintCall.functionName,
+          args: mintCall.args,
+        }),
+        value: mintCall.value,
+      }),
+      client.estimateFeesPerGas().catch(async () => ({
+        maxFeePerGas: undefined,
+        gasPrice: await client.getGasPrice(),
+      })),
+    ]);
+
+    const feePerGas = fees.maxFeePerGas ?? fees.gasPrice ?? BigInt(0);
+    return { gasLimit, feePerGas, estimatedCost: gasLimit * feePerGas };
+  } catch (error) {
+    console.warn("[Gas Estimate] Failed to estimate mint gas:", error);
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+import { encodeFunctionData, formatUnits, getAddress, zeroAddress, type Address, type Hex } from "viem";
+import type { MintParams, MintPriceData, NFTContractInfo } from "~/lib/types";
+import { getChainById } from "~/lib/chains";
+import { buildMintCall, canMintToRecipient } from "~/lib/provider-configs";
+import { requiresMerkleProof } from "~/lib/allowlist";
+
+/**
+ * Destination call for Daimo Pay's contract-call mode
+ */
+export type CrossChainMintCall = {
+  toChain: number;
+  toAddress: Address;
+  toCallData: Hex;
+  /** Zero address for native currency */
+  toToken: Address;
+  /** Decimal amount of toToken, e.g. "0.000777" */
+  toUnits: string;
+};
+
+/**
+ * Check whether a mint can run as a Daimo Pay destination call.
+ * Daimo's intent contract is msg.sender, so the provider must take an explicit recipient,
+ * and the payment must be a single asset.
+ */
+export function getCrossChainMintSupport(
+  params: Pick<MintParams, "recipient">,
+  contractInfo: NFTContractInfo,
+  priceData: Pick<MintPriceData, "totalCost" | "erc20Details">,
+): { supported: true } | { supported: false; reason: string } {
+  if (!params.recipient) {
+    return { supported: false, reason: "Connect a wallet to receive the NFT" };
+  }
+  if (!canMintToRecipient(contractInfo)) {
+    return requiresMerkleProof(contractInfo)
+      ? { supported: false, reason: "Allowlist claims must be paid from the allowlisted wallet" }
+      : { supported: false, reason: `${contractInfo.provider} mints to the payer only` };
+  }
+  if (priceData.erc20Details && priceData.totalCost > BigInt(0)) {
+    return { supported: false, reason: "Mints paying both an ERC20 and a native fee need a direct wallet" };
+  }
+  return { supported: true };
+}
+
+/**
+ * Encode the provider's mint call for Daimo Pay, minting to params.recipient
+ */
+export function getCrossChainMintCall(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: Pick<MintPriceData, "totalCost" | "mintPrice" | "erc20Details">,
+): CrossChainMintCall | null {
+  if (!getCrossChainMintSupport(params, contractInfo, priceData).supported) return null;
+
+  const mintCall = buildMintCall(params, contractInfo, priceData);
+  const toCallData = encodeFunctionData({
+    abi: mintCall.abi,
+    functionName: mintCall.functionName,
+    args: mintCall.args,
+  });
+
+  // ERC20 claims: Daimo approves toUnits of the token to toAddress before the call
+  if (priceData.erc20Details) {
+    const unitCost = contractInfo.claim?.cost ?? priceData.mintPrice ?? BigInt(0);
+    return {
+      toChain: params.chainId,
+      toAddress: mintCall.address,
+      toCallData,
+      toToken: getAddress(priceData.erc20Details.address),
+      toUnits: formatUnits(unitCost * BigInt(params.amount || 1), priceData.erc20Details.decimals),
+    };
+  }
+
+  return {
+    toChain: params.chainId,
+    toAddress: mintCall.address,
+    toCallData,
+    toToken: zeroAddress,
+    toUnits: formatUnits(mintCall.value, getChainById(params.chainId).nativeCurrency.decimals),
+  };
+}
@@ -0,0 +1,248 @@
+import type { PublicClient } from "viem";
+import type { MintParams, MintPriceData, NFTContractInfo } from "~/lib/types";
+import { detectNFTProvider } from "~/lib/provider-detector";
+import { fetchPriceData } from "~/lib/price-optimizer";
+import { getMintAccount } from "~/lib/provider-configs";
+import { parseWithBigInt, stringifyWithBigInt } from "~/lib/utils";
+import { traceLog } from "~/lib/mint-trace";
+
+/** Provider, token standard and extension address never change for a deployed contract */
+export const DETECTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Price, claim and allowance state can change with every mint */
+export const PRICE_TTL_MS = 30 * 1000;
+
+/**
+ * Optional persistent tier shared across sessions (e.g. kv).
+ * Only detection results are persisted, and only on the server; price entries stay in memory.
+ */
+export type DetectionCacheStore = {
+  get: (key: string) => Promise<unknown>;
+  set: (key: string, value: unknown) => Promise<void>;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  cachedAt: number;
+  expiresAt: number;
+};
+
+/** Contract info fields fetchPriceData fills in, cached alongside the price */
+type PriceCacheValue = {
+  priceData: MintPriceData;
+  contractInfo: Pick<NFTContractInfo, "claim" | "claimCondition" | "publicDrop" | "zoraSale">;
+};
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const pendingRequests = new Map<string, Promise<unknown>>();
+const invalidations = new Map<string, number>();
+
+let persistentStore: DetectionCacheStore | null | undefined;
+
+/**
+ * Replace the persistent tier (pass null to use the in-memory tier only).
+ * The store must only be writable by trusted code: its entries become mint call targets.
+ */
+export function setDetectionCacheStore(store: DetectionCacheStore | null) {
+  persistentStore = store;
+}
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Wrap a store so entries carry an HMAC of the key and value. kv is writable with the
+ * public anon key, so anything without a valid signature is treated as a miss.
+ */
+export function createSignedCacheStore(store: DetectionCacheStore, secret: string): DetectionCacheStore {
+  const hmacKey = crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sign = async (key: string, payload: string) =>
+    toHex(await crypto.subtle.sign("HMAC", await hmacKey, new TextEncoder().encode(`${key}\n${payload}`)));
+
+  return {
+    get: async (key) => {
+      const raw = await store.get(key);
+      if (!raw || typeof raw !== "object") return null;
+      const { payload, signature } = raw as { payload?: unknown; signature?: unknown };
+      if (typeof payload !== "string" || typeof signature !== "string") return null;
+      return signature === (await sign(key, payload)) ? payload : null;
+    },
+    set: async (key, value) => {
+      const payload = String(value);
+      await store.set(key, { payload, signature: await sign(key, payload) });
+    },
+  };
+}
+
+/**
+ * kv tier is opt-in via DETECTION_CACHE_KV=true plus a DETECTION_CACHE_SECRET for signing,
+ * and only runs on the server (e.g. inside /api/mint/prepare)
+ */
+async function getPersistentStore(): Promise<DetectionCacheStore | null> {
+  if (typeof window !== "undefined") return null;
+  if (persistentStore !== undefined) return persistentStore;
+  const secret = process.env.DETECTION_CACHE_SECRET;
+  if (process.env.DETECTION_CACHE_KV !== "true" || !secret) {
+    persistentStore = null;
+    return null;
+  }
+  const { kv } = await import("~/lib/kv");
+  persistentStore = createSignedCacheStore(kv, secret);
+  return persistentStore;
+}
+
+/**
+ * Cache key for a contract (plus Manifold instance / token when set)
+ */
+export function getDetectionCacheKey(
+  params: Pick<MintParams, "chainId" | "contractAddress" | "instanceId" | "tokenId">,
+): string {
+  const parts = [params.chainId, params.contractAddress.toLowerCase()];
+  if (params.instanceId) parts.push(`i${params.instanceId}`);
+  if (params.tokenId) parts.push(`t${params.tokenId}`);
+  return `detection:${parts.join(":")}`;
+}
+
+/** Price data depends on quantity and on the paying wallet's allowance/balance */
+function getPriceCacheKey(params: MintParams): string {
+  const account = getMintAccount(params)?.toLowerCase() || "anonymous";
+  return `price:${getDetectionCacheKey(params)}:${params.amount || 1}:${account}`;
+}
+
+function isInvalidated(key: string, cachedAt: number): boolean {
+  for (const [prefix, invalidatedAt] of invalidations) {
+    if (key.startsWith(prefix) && cachedAt <= invalidatedAt) return true;
+  }
+  return false;
+}
+
+async function readCache<T>(key: string, persist: boolean): Promise<T | null> {
+  const now = Date.now();
+  const cached = memoryCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return structuredClone(cached.value as T);
+  }
+  memoryCache.delete(key);
+  if (!persist) return null;
+
+  const store = await getPersistentStore();
+  if (!store) return null;
+
+  try {
+    const raw = await store.get(key);
+    if (typeof raw !== "string") return null;
+    const entry = parseWithBigInt<CacheEntry<T>>(raw);
+    if (entry.expiresAt <= now || isInvalidated(key, entry.cachedAt)) return null;
+    memoryCache.set(key, entry);
+    return structuredClone(entry.value);
+  } catch (error) {
+    console.warn(`[Detection Cache] Failed to read ${key} from persistent store:`, error);
+    return null;
+  }
+}
+
+async function writeCache<T>(key: string, value: T, ttlMs: number, persist: boolean) {
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    value: structuredClone(value),
+    cachedAt: now,
+    expiresAt: now + ttlMs,
+  };
+  memoryCache.set(key, entry);
+  if (!persist) return;
+
+  const store = await getPersistentStore();
+  if (!store) return;
+
+  try {
+    // kv stores JSON, so bigints are tagged on the way in
+    await store.set(key, stringifyWithBigInt(entry));
+  } catch (error) {
+    console.warn(`[Detection Cache] Failed to write ${key} to persistent store:`, error);
+  }
+}
+
+/**
+ * Share one in-flight request between buttons for the same contract mounting together
+ */
+function dedupe<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = pendingRequests.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const request = load().finally(() => pendingRequests.delete(key));
+  pendingRequests.set(key, request);
+  return request;
+}
+
+/**
+ * detectNFTProvider with a long-lived cache (provider, ERC type and extension address)
+ */
+export async function detectNFTProviderCached(
+  params: MintParams,
+): Promise<NFTContractInfo> {
+  const key = getDetectionCacheKey(params);
+  const cached = await readCache<NFTContractInfo>(key, true);
+  if (cached) {
+    traceLog(`[Detection Cache] ✅ Hit for ${key}`);
+    return cached;
+  }
+
+  const info = await dedupe(key, async () => {
+    const detected = await detectNFTProvider(params);
+    // Don't pin a failed detection (generic, no interfaces) for a whole day
+    if (detected.provider !== "generic" || detected.isERC721 || detected.isERC1155) {
+      await writeCache(key, detected, DETECTION_TTL_MS, true);
+    }
+    return detected;
+  });
+  return structuredClone(info);
+}
+
+/**
+ * fetchPriceData with a short-lived cache. Applies the cached claim/sale state
+ * to contractInfo just like a fresh fetch would.
+ */
+export async function fetchPriceDataCached(
+  client: PublicClient,
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): Promise<MintPriceData> {
+  const key = getPriceCacheKey(params);
+  // Per recipient and amount, so price entries never leave this process
+  const cached = await readCache<PriceCacheValue>(key, false);
+  if (cached) {
+    traceLog(`[Detection Cache] ✅ Price hit for ${key}`);
+    Object.assign(contractInfo, cached.contractInfo);
+    return cached.priceData;
+  }
+
+  const value = await dedupe(key, async (): Promise<PriceCacheValue> => {
+    const priceData = await fetchPriceData(client, params, contractInfo);
+    const { claim, claimCondition, publicDrop, zoraSale } = contractInfo;
+    const fetched = { priceData, contractInfo: { claim, claimCondition, publicDrop, zoraSale } };
+    await writeCache(key, fetched, PRICE_TTL_MS, false);
+    return fetched;
+  });
+
+  Object.assign(contractInfo, structuredClone(value.contractInfo));
+  return structuredClone(value.priceData);
+}
+
+/**
+ * Drop cached price/claim state for a contract (e.g. after a mint or approval)
+ */
+export function invalidatePriceCache(
+  params: Pick<MintParams, "chainId" | "contractAddress" | "instanceId" | "tokenId">,
+) {
+  const prefix = `price:${getDetectionCacheKey(params)}:`;
+  invalidations.set(prefix, Date.now());
+  for (const key of memoryCache.keys()) {
+    if (key.startsWith(prefix)) memoryCache.delete(key);
+  }
+}
@@ -1,10 +1,31 @@
-export type ErrorType = 
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RawContractError,
+  SwitchChainError,
+  TimeoutError,
+  UnsupportedChainIdError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Hex,
+} from "viem";
+import { MINT_ERRORS_ABI } from "~/lib/nft-standards";
+
+export type ErrorType =
   | "insufficient-funds"
-  | "wrong-network" 
+  | "wrong-network"
   | "user-rejected"
   | "contract-error"
   | "allowance-error"
   | "network-error"
+  | "sold-out"
+  | "wallet-limit"
+  | "mint-not-active"
+  | "not-eligible"
+  | "incorrect-payment"
   | "unknown";
 
 export interface ParsedError {
@@ -13,14 +34,337 @@ export interface ParsedError {
   details?: string;
   actionText?: string;
   action?: () => void;
+  /** Decoded custom error name, e.g. "DropClaimExceedLimit" */
+  errorName?: string;
+  /** Decoded custom error parameters keyed by ABI input name */
+  args?: Record<string, unknown>;
+}
+
+type DecodedRevert = {
+  errorName: string;
+  args: Record<string, unknown>;
+};
+
+type ParsedRevert = Omit<ParsedError, "errorName" | "args">;
+
+// Every numeric arg in MINT_ERRORS_ABI is a uint256, which viem decodes as a bigint
+const toBigInt = (value: unknown): bigint => (typeof value === "bigint" ? value : BigInt(0));
+
+const formatTimestamp = (value: unknown) =>
+  new Date(Number(toBigInt(value)) * 1000).toLocaleString();
+
+/**
+ * User-facing messages for the custom errors in MINT_ERRORS_ABI
+ */
+const CUSTOM_ERRORS: Record<string, (args: Record<string, unknown>) => ParsedRevert> = {
+  DropClaimExceedLimit: ({ expected, actual }) => ({
+    type: "wallet-limit",
+    message: "Wallet limit reached",
+    details: `This wallet can claim ${toBigInt(expected)} in total; this mint would bring it to ${toBigInt(actual)}.`,
+    actionText: "Lower the quantity",
+  }),
+  DropClaimExceedMaxSupply: ({ expected }) => ({
+    type: "sold-out",
+    message: "Sold out",
+    details: `Only ${toBigInt(expected)} can be claimed in this phase and the request exceeds what's left.`,
+  }),
+  DropClaimInvalidTokenPrice: () => ({
+    type: "incorrect-payment",
+    message: "Price changed",
+    details: "The claim price or currency changed since the page loaded.",
+    actionText: "Refresh and try again",
+  }),
+  DropClaimNotStarted: ({ expected }) => ({
+    type: "mint-not-active",
+    message: "Mint hasn't started",
+    details: `This claim phase opens ${formatTimestamp(expected)}.`,
+  }),
+  DropClaimMerkleProofInvalid: () => ({
+    type: "not-eligible",
+    message: "Not on the allowlist",
+    details: "Your wallet is not on the allowlist for this claim phase.",
+  }),
+  DropNoActiveCondition: () => ({
+    type: "mint-not-active",
+    message: "Mint not active",
+    details: "There is no active claim phase for this drop.",
+  }),
+  ClaimInactive: () => ({
+    type: "mint-not-active",
+    message: "Mint not active",
+    details: "This claim hasn't started yet or has already ended.",
+  }),
+  TooManyRequested: () => ({
+    type: "wallet-limit",
+    message: "Too many requested",
+    details: "The quantity exceeds the wallet limit or the remaining supply.",
+    actionText: "Lower the quantity",
+  }),
+  InvalidPayment: () => ({
+    type: "incorrect-payment",
+    message: "Incorrect payment",
+    details: "The amount sent doesn't match the claim cost plus mint fee.",
+    actionText: "Refresh and try again",
+  }),
+  InvalidInstance: () => ({
+    type: "contract-error",
+    message: "Claim not found",
+    details: "The claim instance doesn't exist on this contract. Check the instanceId.",
+  }),
+  InvalidProof: () => ({
+    type: "not-eligible",
+    message: "Not on the allowlist",
+    details: "The allowlist proof for your wallet was rejected.",
+  }),
+  NotActive: ({ startTimestamp, endTimestamp, currentTimestamp }) => ({
+    type: "mint-not-active",
+    message: toBigInt(currentTimestamp) < toBigInt(startTimestamp) ? "Mint hasn't started" : "Mint ended",
+    details: toBigInt(currentTimestamp) < toBigInt(startTimestamp)
+      ? `The public drop opens ${formatTimestamp(startTimestamp)}.`
+      : `The public drop closed ${formatTimestamp(endTimestamp)}.`,
+  }),
+  MintQuantityExceedsMaxMintedPerWallet: ({ allowed }) => ({
+    type: "wallet-limit",
+    message: "Wallet limit reached",
+    details: `Each wallet can mint up to ${toBigInt(allowed)}.`,
+    actionText: "Lower the quantity",
+  }),
+  MintQuantityExceedsMaxSupply: ({ maxSupply }) => ({
+    type: "sold-out",
+    message: "Sold out",
+    details: `The collection has reached its max supply of ${toBigInt(maxSupply)}.`,
+  }),
+  MintQuantityExceedsMaxTokenSupplyForStage: ({ maxTokenSupplyForStage }) => ({
+    type: "sold-out",
+    message: "Sold out",
+    details: `This stage is capped at ${toBigInt(maxTokenSupplyForStage)} tokens.`,
+  }),
+  IncorrectPayment: ({ got, want }) => ({
+    type: "incorrect-payment",
+    message: "Incorrect payment",
+    details: `The drop expects ${toBigInt(want)} wei but ${toBigInt(got)} wei was sent.`,
+    actionText: "Refresh and try again",
+  }),
+  FeeRecipientNotAllowed: () => ({
+    type: "contract-error",
+    message: "Fee recipient not allowed",
+    details: "This drop restricts which fee recipients can be used.",
+  }),
+  SaleEnded: () => ({
+    type: "mint-not-active",
+    message: "Mint ended",
+    details: "The sale for this token has ended.",
+  }),
+  SaleHasNotStarted: () => ({
+    type: "mint-not-active",
+    message: "Mint hasn't started",
+    details: "The sale for this token hasn't started yet.",
+  }),
+  WrongValueSent: () => ({
+    type: "incorrect-payment",
+    message: "Incorrect payment",
+    details: "The amount sent doesn't match the sale price plus mint fee.",
+    actionText: "Refresh and try again",
+  }),
+  UserExceedsMintLimit: ({ limit }) => ({
+    type: "wallet-limit",
+    message: "Wallet limit reached",
+    details: `Each wallet can mint up to ${toBigInt(limit)} of this token.`,
+    actionText: "Lower the quantity",
+  }),
+  CannotMintMoreTokens: ({ maxSupply }) => ({
+    type: "sold-out",
+    message: "Sold out",
+    details: `This token has reached its max supply of ${toBigInt(maxSupply)}.`,
+  }),
+  ERC20InsufficientAllowance: () => ({
+    type: "allowance-error",
+    message: "Approval required",
+    details: "The token allowance is lower than the mint cost",
+    actionText: "Approve tokens",
+  }),
+  ERC20InsufficientBalance: () => ({
+    type: "insufficient-funds",
+    message: "Insufficient funds",
+    details: "You don't have enough tokens to pay for this mint.",
+    actionText: "Check wallet balance",
+  }),
+};
+
+/**
+ * Find the first viem error in an error's cause chain (handles errors re-wrapped with { cause })
+ */
+function findBaseError(error: unknown): BaseError | null {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    if (current instanceof BaseError) return current;
+    current = current.cause;
+  }
+  return null;
+}
+
+/**
+ * Decode a custom error from revert data using the provider ABIs
+ */
+export function decodeRevert(error: unknown): DecodedRevert | null {
+  const baseError = findBaseError(error);
+  if (!baseError) return null;
+
+  const reverted = baseError.walk((e) => e instanceof ContractFunctionRevertedError) as
+    | ContractFunctionRevertedError
+    | null;
+  // Already decoded when the call's ABI included the error
+  if (reverted?.data && reverted.data.abiItem.type === "error") {
+    return toDecodedRevert(reverted.data.errorName, reverted.data.abiItem.inputs, reverted.data.args);
+  }
+
+  const raw = baseError.walk((e) => e instanceof RawContractError) as RawContractError | null;
+  const data = reverted?.raw ?? (typeof raw?.data === "object" ? raw.data.data : raw?.data);
+  if (!data || data === "0x") return null;
+
+  try {
+    const decoded = decodeErrorResult({ abi: MINT_ERRORS_ABI, data: data as Hex });
+    return toDecodedRevert(decoded.errorName, decoded.abiItem.inputs, decoded.args);
+  } catch {
+    // Not one of the known mint errors
+    return null;
+  }
+}
+
+function toDecodedRevert(
+  errorName: string,
+  inputs: readonly { name?: string }[],
+  args: readonly unknown[] | undefined,
+): DecodedRevert {
+  const named: Record<string, unknown> = {};
+  inputs.forEach((input, i) => {
+    named[input.name || String(i)] = args?.[i];
+  });
+  return { errorName, args: named };
+}
+
+/**
+ * Classify a revert reason string (require messages) by keyword.
+ * Without a clean reason (raw error messages) the details fall back to generic copy.
+ */
+function parseRevertReason(reason: string, isCleanReason = true): ParsedRevert {
+  const lower = reason.toLowerCase();
+  const details = (fallback: string) => (isCleanReason ? reason : fallback);
+
+  if (lower.includes("sold out") || lower.includes("max supply")) {
+    return {
+      type: "sold-out",
+      message: "Sold out",
+      details: details("This NFT is sold out or has reached maximum supply."),
+    };
+  }
+  if (lower.includes("not started") || lower.includes("not active")) {
+    return {
+      type: "mint-not-active",
+      message: "Mint not active",
+      details: details("Minting hasn't started yet or has ended."),
+    };
+  }
+  if (lower.includes("max per wallet") || lower.includes("exceeds max")) {
+    return {
+      type: "wallet-limit",
+      message: "Wallet limit reached",
+      details: details("You've reached the maximum amount allowed per wallet."),
+      actionText: "Lower the quantity",
+    };
+  }
+  if (lower.includes("allowlist") || lower.includes("not eligible")) {
+    return {
+      type: "not-eligible",
+      message: "Not eligible",
+      details: details("You're not eligible to mint this NFT. Check if it requires an allowlist."),
+    };
+  }
+  return {
+    type: "contract-error",
+    message: "Transaction failed",
+    details: details("The contract rejected this transaction."),
+    actionText: "Try again later",
+  };
+}
+
+/**
+ * Parse viem errors by class and decoded revert data
+ */
+function parseViemError(baseError: BaseError, context: "approval" | "mint"): ParsedError | null {
+  if (baseError.walk((e) => e instanceof UserRejectedRequestError)) {
+    return {
+      type: "user-rejected",
+      message: "Transaction cancelled",
+      details: "You rejected the transaction in your wallet",
+      actionText: "Try again"
+    };
+  }
+
+  const revert = decodeRevert(baseError);
+  const describe = revert && CUSTOM_ERRORS[revert.errorName];
+  if (revert && describe) {
+    return { ...describe(revert.args), ...revert };
+  }
+
+  if (baseError.walk((e) => e instanceof InsufficientFundsError)) {
+    return {
+      type: "insufficient-funds",
+      message: "Insufficient funds",
+      details: context === "approval"
+        ? "You don't have enough ETH to pay for gas"
+        : "You don't have enough funds to complete this transaction. Check both token balance and ETH for gas.",
+      actionText: "Check wallet balance"
+    };
+  }
+
+  if (
+    baseError.walk(
+      (e) =>
+        e instanceof ChainMismatchError ||
+        e instanceof SwitchChainError ||
+        e instanceof UnsupportedChainIdError,
+    )
+  ) {
+    return {
+      type: "wrong-network",
+      message: "Wrong network",
+      details: "Please switch to the correct network in your wallet",
+      actionText: "Switch network"
+    };
+  }
+
+  if (baseError.walk((e) => e instanceof HttpRequestError || e instanceof TimeoutError)) {
+    return {
+      type: "network-error",
+      message: "Network error",
+      details: "Connection issue with the blockchain. This is usually temporary.",
+      actionText: "Try again"
+    };
+  }
+
+  const reverted = baseError.walk((e) => e instanceof ContractFunctionRevertedError) as
+    | ContractFunctionRevertedError
+    | null;
+  if (reverted) {
+    return parseRevertReason(reverted.reason || reverted.shortMessage);
+  }
+
+  return null;
 }
 
 /**
  * Parse blockchain errors into user-friendly messages with actionable next steps
  */
 export function parseError(error: unknown, context: "approval" | "mint"): ParsedError {
+  const baseError = findBaseError(error);
+  if (baseError) {
+    const parsed = parseViemError(baseError, context);
+    if (parsed) return parsed;
+  }
+
   const errorMessage = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-  
+
   // User rejected transaction
   if (errorMessage.includes("user rejected") || errorMessage.includes("user denied")) {
     return {
@@ -30,7 +374,7 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
       actionText: "Try again"
     };
   }
-  
+
   // Insufficient funds
   if (
     errorMessage.includes("insufficient funds") ||
@@ -41,18 +385,19 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
     return {
       type: "insufficient-funds",
       message: "Insufficient funds",
-      details: context === "approval" 
+      details: context === "approval"
         ? "You don't have enough tokens to approve this amount"
         : "You don't have enough funds to complete this transaction. Check both token balance and ETH for gas.",
       actionText: "Check wallet balance"
     };
   }
-  
-  // Wrong network
+
+  // Wrong network (only explicit chain mismatch messages, not any mention of "chain")
   if (
-    errorMessage.includes("network") ||
-    errorMessage.includes("chain") ||
-    errorMessage.includes("chainid")
+    errorMessage.includes("chain mismatch") ||
+    errorMessage.includes("does not match the target chain") ||
+    errorMessage.includes("wrong network") ||
+    errorMessage.includes("unsupported chain")
   ) {
     return {
       type: "wrong-network",
@@ -61,36 +406,17 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
       actionText: "Switch network"
     };
   }
-  
+
   // Contract errors
   if (
     errorMessage.includes("revert") ||
-    errorMessage.includes("execution reverted") ||
     errorMessage.includes("contract error")
   ) {
-    // Try to extract revert reason
-    let details = "The contract rejected this transaction.";
-    
-    if (errorMessage.includes("sold out") || errorMessage.includes("max supply")) {
-      details = "This NFT is sold out or has reached maximum supply.";
-    } else if (errorMessage.includes("not started") || errorMessage.includes("not active")) {
-      details = "Minting hasn't started yet or has ended.";
-    } else if (errorMessage.includes("max per wallet") || errorMessage.includes("exceeds max")) {
-      details = "You've reached the maximum amount allowed per wallet.";
-    } else if (errorMessage.includes("allowlist") || errorMessage.includes("not eligible")) {
-      details = "You're not eligible to mint this NFT. Check if it requires an allowlist.";
-    }
-    
-    return {
-      type: "contract-error",
-      message: "Transaction failed",
-      details,
-      actionText: "Try again later"
-    };
+    return parseRevertReason(errorMessage, false);
   }
-  
+
   // Allowance errors
-  if (errorMessage.includes("allowance") || errorMessage.includes("approve")) {
+  if (errorMessage.includes("allowance")) {
     return {
       type: "allowance-error",
       message: "Approval required",
@@ -98,12 +424,11 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
       actionText: "Approve tokens"
     };
   }
-  
+
   // Network/RPC errors
   if (
     errorMessage.includes("timeout") ||
-    errorMessage.includes("network") ||
-    errorMessage.includes("fetch") ||
+    errorMessage.includes("failed to fetch") ||
     errorMessage.includes("rpc")
   ) {
     return {
@@ -113,7 +438,7 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
       actionText: "Try again"
     };
   }
-  
+
   // Generic fallback
   return {
     type: "unknown",
@@ -121,4 +446,4 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
     details: error instanceof Error ? error.message : "An unexpected error occurred",
     actionText: "Try again"
   };
-}
\ No newline at end of file
+}
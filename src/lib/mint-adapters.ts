@@ -0,0 +1,19 @@
+import type { MintAdapter } from "~/lib/types";
+import { registerMintAdapter } from "~/lib/provider-registry";
+
+/**
+ * Mint adapters for this app. Add custom adapters here rather than calling
+ * registerMintAdapter directly, so the browser and /api/mint/prepare detect the same providers.
+ */
+export const APP_MINT_ADAPTERS: MintAdapter[] = [];
+
+let registered = false;
+
+/**
+ * Register APP_MINT_ADAPTERS once per runtime (browser bundle or server process)
+ */
+export function registerAppMintAdapters(): void {
+  if (registered) return;
+  registered = true;
+  APP_MINT_ADAPTERS.forEach((adapter) => registerMintAdapter(adapter));
+}
@@ -0,0 +1,130 @@
+import posthog from "posthog-js";
+import { parseError, type ErrorType } from "~/lib/error-parser";
+import type { MintState, MintStep } from "~/lib/mint-reducer";
+import type { NFTProvider } from "~/lib/types";
+
+/**
+ * Funnel events emitted as the mint flow moves between steps
+ */
+export type MintAnalyticsEvent =
+  | { name: "mint_detect_started" }
+  | { name: "mint_sheet_opened"; properties: { step: MintStep } }
+  | { name: "mint_approve_started"; properties: { approval_mode: MintState["approvalMode"] } }
+  | { name: "mint_approved" }
+  | { name: "mint_submitted"; properties: { quantity: number; tx_hash?: string } }
+  | { name: "mint_succeeded"; properties: { quantity: number; tx_hash?: string; token_count: number } }
+  | { name: "mint_failed"; properties: { error_type: ErrorType; stage: MintStep; message?: string } };
+
+export type MintAnalyticsEventName = MintAnalyticsEvent["name"];
+
+/**
+ * Properties attached to every mint event
+ */
+export type MintAnalyticsContext = {
+  contract_address: string;
+  chain_id: number;
+  provider?: NFTProvider;
+};
+
+/**
+ * Sink for mint funnel events (PostHog, an in-memory list for tests, or nothing)
+ */
+export type MintAnalytics = {
+  track: (event: MintAnalyticsEvent, context: MintAnalyticsContext) => void;
+};
+
+export const noopMintAnalytics: MintAnalytics = { track: () => {} };
+
+/**
+ * Sink that keeps events in memory, for tests and local development
+ */
+export function createMemoryMintAnalytics(): MintAnalytics & {
+  events: { event: MintAnalyticsEvent; context: MintAnalyticsContext }[];
+} {
+  const events: { event: MintAnalyticsEvent; context: MintAnalyticsContext }[] = [];
+  return {
+    events,
+    track: (event, context) => {
+      events.push({ event, context });
+    },
+  };
+}
+
+/**
+ * Sink that captures events with posthog-js. Events are dropped until PostHogProvider has initialized it.
+ */
+export function createPostHogMintAnalytics(client = posthog): MintAnalytics {
+  return {
+    track: (event, context) => {
+      if (!client.__loaded) return;
+      client.capture(event.name, { ...context, ...("properties" in event ? event.properties : {}) });
+    },
+  };
+}
+
+export const defaultMintAnalytics = createPostHogMintAnalytics();
+
+// Steps where the flow stopped on a problem
+const FAILED_STEPS: MintStep[] = ["error", "validation-error", "not-eligible", "dropped"];
+
+function getErrorType(prev: MintState, next: MintState, parsedErrorType?: ErrorType): ErrorType {
+  if (next.step === "not-eligible") return "not-eligible";
+  if (next.step === "validation-error") return "contract-error";
+  if (next.step === "dropped") return "network-error";
+  // Detection failures never go through parseError, so a parsed type would be stale
+  if (prev.step === "detecting" || !parsedErrorType) {
+    return parseError(next.error, prev.txType ?? "mint").type;
+  }
+  return parsedErrorType;
+}
+
+/**
+ * Funnel event for a step transition, or null when the transition isn't tracked
+ * @param parsedErrorType - ErrorType already parsed from the underlying error, preferred over re-parsing the message
+ */
+export function getMintAnalyticsEvent(
+  prev: MintState,
+  next: MintState,
+  parsedErrorType?: ErrorType,
+): MintAnalyticsEvent | null {
+  if (prev.step === next.step) return null;
+
+  if (FAILED_STEPS.includes(next.step)) {
+    return {
+      name: "mint_failed",
+      properties: {
+        error_type: getErrorType(prev, next, parsedErrorType),
+        stage: prev.step,
+        message: next.error ?? next.validationErrors?.join(", "),
+      },
+    };
+  }
+
+  switch (next.step) {
+    case "detecting":
+      return { name: "mint_detect_started" };
+    case "sheet":
+    case "approve":
+    case "not-started":
+    case "ended":
+      if (prev.step === "detecting") {
+        return { name: "mint_sheet_opened", properties: { step: next.step } };
+      }
+      // Approval confirmed and the sheet is back to the mint step
+      return prev.step === "waiting" && prev.txType === "approval" ? { name: "mint_approved" } : null;
+    case "approving":
+      return { name: "mint_approve_started", properties: { approval_mode: next.approvalMode } };
+    case "waiting":
+      // Resumed and sped-up txs reach this step too; only count submissions from the sheet
+      return next.txType === "mint" && (prev.step === "minting" || prev.step === "sheet")
+        ? { name: "mint_submitted", properties: { quantity: next.quantity, tx_hash: next.txHash } }
+        : null;
+    case "success":
+      return {
+        name: "mint_succeeded",
+        properties: { quantity: next.quantity, tx_hash: next.txHash, token_count: next.mintedTokens.length },
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import { ERC20_ABI } from "~/lib/nft-standards";
+import type { MintApproval } from "~/lib/mint-prepare";
+
+/**
+ * A single transaction in a cart checkout
+ */
+export type CartCall = {
+  to: Address;
+  data: Hex;
+  value: bigint;
+};
+
+/**
+ * Merge approvals for the same chain, token and spender so the cart approves each once
+ */
+export function aggregateApprovals(approvals: MintApproval[]): MintApproval[] {
+  const merged = new Map<string, MintApproval>();
+
+  for (const approval of approvals) {
+    const key = `${approval.chainId}:${approval.token.toLowerCase()}:${approval.spender.toLowerCase()}`;
+    const existing = merged.get(key);
+    const amount = (existing?.amount ?? BigInt(0)) + approval.amount;
+    const allowance = existing?.allowance ?? approval.allowance;
+    merged.set(key, {
+      ...approval,
+      amount,
+      allowance,
+      required: allowance === undefined || allowance < amount,
+    });
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * ERC20 approve call for an aggregated approval
+ */
+export function buildApprovalCall(approval: MintApproval): CartCall {
+  return {
+    to: approval.token,
+    data: encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: "approve",
+      args: [approval.spender, approval.amount],
+    }),
+    value: BigInt(0),
+  };
+}
+
+/**
+ * Whether the wallet can execute a batch atomically on a chain (EIP-5792 atomic capability).
+ * "ready" means the wallet will upgrade the account on first use.
+ */
+export function supportsAtomicBatch(
+  capabilities: Record<number, { atomic?: { status: string } } | undefined> | undefined,
+  chainId: number,
+): boolean {
+  const status = capabilities?.[chainId]?.atomic?.status;
+  return status === "supported" || status === "ready";
+}
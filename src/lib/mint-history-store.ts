@@ -0,0 +1,50 @@
+import type { Address } from "viem";
+import { createSignedCacheStore, type DetectionCacheStore } from "~/lib/detection-cache";
+import type { MintRecord } from "~/lib/mint-history";
+
+let store: DetectionCacheStore | null | undefined;
+
+/**
+ * Signed kv store for synced mint histories. kv is writable with the public anon key, so entries
+ * carry an HMAC with MINT_HISTORY_SECRET and anything written around the route reads as empty.
+ * Server-only.
+ */
+async function getMintHistoryStore(): Promise<DetectionCacheStore | null> {
+  if (store !== undefined) return store;
+  const secret = process.env.MINT_HISTORY_SECRET;
+  if (!secret) {
+    store = null;
+    return null;
+  }
+  const { kv } = await import("~/lib/kv");
+  store = createSignedCacheStore(kv, secret);
+  return store;
+}
+
+const historyKey = (owner: Address) => `mint-history:${owner.toLowerCase()}`;
+
+/**
+ * Whether MINT_HISTORY_SECRET is set, i.e. histories can be synced
+ */
+export async function isMintHistoryStoreConfigured(): Promise<boolean> {
+  return (await getMintHistoryStore()) !== null;
+}
+
+/**
+ * Stored history for a wallet; empty when missing or when the signature doesn't verify
+ */
+export async function readStoredMintHistory(owner: Address): Promise<MintRecord[]> {
+  const signed = await getMintHistoryStore();
+  if (!signed) return [];
+  const payload = await signed.get(historyKey(owner));
+  return typeof payload === "string" ? (JSON.parse(payload) as MintRecord[]) : [];
+}
+
+/**
+ * Replace the stored history for a wallet. Callers must have verified the owner first.
+ */
+export async function writeStoredMintHistory(owner: Address, records: MintRecord[]): Promise<void> {
+  const signed = await getMintHistoryStore();
+  if (!signed) throw new Error("MINT_HISTORY_SECRET is not set");
+  await signed.set(historyKey(owner), JSON.stringify(records));
+}
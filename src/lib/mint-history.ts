@@ -0,0 +1,246 @@
+import type { Address, Hash, Hex } from "viem";
+import { getPublicClient } from "~/lib/chains";
+import { getPendingTxStatus } from "~/lib/pending-tx";
+
+const STORAGE_PREFIX = "nft-mint:history";
+
+// Keep the newest records only; pending ones are never dropped
+const MAX_RECORDS = 50;
+
+// A tx the node has never seen after this long was dropped from the mempool
+const DROPPED_AFTER_MS = 10 * 60 * 1000;
+
+/** One signature authorizes history pushes for a day */
+export const MINT_HISTORY_SYNC_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** "replaced" means the tx was sped up, cancelled or overridden by another with the same nonce */
+export type MintRecordStatus = "pending" | "success" | "failed" | "replaced";
+
+/**
+ * Mint transaction sent from a wallet, persisted so a reopened app can pick it back up
+ */
+export type MintRecord = {
+  txHash: Hash;
+  chainId: number;
+  /** Wallet that sent the transaction */
+  owner: Address;
+  /** Wallet receiving the NFTs (differs from owner for gifts) */
+  recipient: Address;
+  contractAddress: Address;
+  instanceId?: string;
+  tokenId?: string;
+  quantity: number;
+  status: MintRecordStatus;
+  mintedTokenIds?: string[];
+  submittedAt: number;
+  settledAt?: number;
+};
+
+/**
+ * Optional remote copy of the history, so pending mints follow the wallet across devices.
+ * The backend must only accept pushes authenticated by the owner's wallet: a shared store anyone
+ * can write (such as the public kv) would let them plant hashes for other wallets to watch.
+ * createApiMintHistorySync does this through the /api/mint-history route.
+ */
+export type MintHistorySync = {
+  pull: (owner: Address) => Promise<MintRecord[]>;
+  push: (owner: Address, records: MintRecord[]) => Promise<void>;
+};
+
+type MintDrop = Pick<MintRecord, "chainId" | "contractAddress" | "instanceId" | "tokenId">;
+
+const storageKey = (owner: Address) => `${STORAGE_PREFIX}:${owner.toLowerCase()}`;
+
+const isSameDrop = (record: MintRecord, drop: MintDrop) =>
+  record.chainId === drop.chainId &&
+  record.contractAddress.toLowerCase() === drop.contractAddress.toLowerCase() &&
+  record.instanceId === drop.instanceId &&
+  record.tokenId === drop.tokenId;
+
+/**
+ * Merge two copies of the history by tx hash; a settled record wins over a pending one
+ */
+function mergeRecords(a: MintRecord[], b: MintRecord[]): MintRecord[] {
+  const byHash = new Map<string, MintRecord>();
+  for (const record of [...a, ...b]) {
+    const key = record.txHash.toLowerCase();
+    const existing = byHash.get(key);
+    if (!existing || (existing.status === "pending" && record.status !== "pending")) {
+      byHash.set(key, record);
+    }
+  }
+  const records = [...byHash.values()].sort((x, y) => y.submittedAt - x.submittedAt);
+  const pending = records.filter((r) => r.status === "pending");
+  const settled = records.filter((r) => r.status !== "pending");
+  return [...pending, ...settled.slice(0, Math.max(0, MAX_RECORDS - pending.length))];
+}
+
+/**
+ * Mint history for a wallet from localStorage, newest first
+ */
+export function getMintHistory(owner: Address): MintRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(storageKey(owner));
+    return raw ? (JSON.parse(raw) as MintRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeMintHistory(owner: Address, records: MintRecord[], sync?: MintHistorySync) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(storageKey(owner), JSON.stringify(records));
+  sync?.push(owner, records).catch((error) => {
+    console.warn("[Mint history] Remote sync failed:", error);
+  });
+}
+
+/**
+ * Store a mint, merging with any existing record for the same tx hash
+ */
+export function recordMint(record: MintRecord, sync?: MintHistorySync): void {
+  const records = getMintHistory(record.owner);
+  const existing = records.find((r) => r.txHash.toLowerCase() === record.txHash.toLowerCase());
+  const next = existing ? { ...existing, ...record, submittedAt: existing.submittedAt } : record;
+  writeMintHistory(
+    record.owner,
+    mergeRecords([next], records.filter((r) => r !== existing)),
+    sync,
+  );
+}
+
+/**
+ * Mark a stored mint as confirmed or failed
+ */
+export function settleMint(
+  owner: Address,
+  txHash: Hash,
+  status: Exclude<MintRecordStatus, "pending">,
+  mintedTokenIds?: string[],
+  sync?: MintHistorySync,
+): void {
+  const records = getMintHistory(owner);
+  if (!records.some((r) => r.txHash.toLowerCase() === txHash.toLowerCase())) return;
+  writeMintHistory(
+    owner,
+    records.map((r) =>
+      r.txHash.toLowerCase() === txHash.toLowerCase()
+        ? { ...r, status, mintedTokenIds: mintedTokenIds ?? r.mintedTokenIds, settledAt: Date.now() }
+        : r,
+    ),
+    sync,
+  );
+}
+
+/**
+ * Most recent unconfirmed mint of this drop from the wallet, if any
+ */
+export function getPendingMint(owner: Address, drop: MintDrop): MintRecord | undefined {
+  return getMintHistory(owner).find((r) => r.status === "pending" && isSameDrop(r, drop));
+}
+
+/**
+ * Pull the remote history into localStorage and push back anything only known locally
+ */
+export async function loadMintHistory(owner: Address, sync: MintHistorySync): Promise<MintRecord[]> {
+  const local = getMintHistory(owner);
+  try {
+    const merged = mergeRecords(local, await sync.pull(owner));
+    writeMintHistory(owner, merged, sync);
+    return merged;
+  } catch (error) {
+    console.warn("[Mint history] Could not load remote history:", error);
+    return local;
+  }
+}
+
+/**
+ * Check whether a pending tx was dropped: unknown to the node and old enough
+ * that it isn't just propagating. Receipts are left to the caller's watcher.
+ */
+export async function isMintDropped(record: MintRecord, now = Date.now()): Promise<boolean> {
+  if (now - record.submittedAt < DROPPED_AFTER_MS) return false;
+  const status = await getPendingTxStatus(record.chainId, record.txHash).catch(() => "pending");
+  return status === "dropped";
+}
+
+/**
+ * Who sent a stored mint, so only the owner's own txs are watched again.
+ * "unknown" when the node can't return the tx (not propagated yet, dropped, or never real).
+ */
+export async function getMintSender(record: MintRecord): Promise<"owner" | "other" | "unknown"> {
+  const tx = await getPublicClient(record.chainId)
+    .getTransaction({ hash: record.txHash })
+    .catch(() => null);
+  if (!tx) return "unknown";
+  return tx.from.toLowerCase() === record.owner.toLowerCase() ? "owner" : "other";
+}
+
+/**
+ * Message the owner signs to let /api/mint-history store their history until expiresAt
+ */
+export function getMintHistorySyncMessage(owner: Address, expiresAt: number): string {
+  return `Sync mint history for ${owner.toLowerCase()} until ${new Date(expiresAt).toISOString()}`;
+}
+
+/**
+ * Sync through the /api/mint-history route. Pushes carry a wallet signature (one prompt per day
+ * and owner), which the route verifies before writing; reads need no signature.
+ *
+ * @example
+ * ```tsx
+ * const { signMessageAsync } = useSignMessage();
+ * const historySync = useMemo(() => createApiMintHistorySync({ signMessage: signMessageAsync }), [signMessageAsync]);
+ * <NFTMintButton historySync={historySync} ... />
+ * ```
+ */
+export function createApiMintHistorySync({
+  signMessage,
+  endpoint = "/api/mint-history",
+}: {
+  signMessage: (args: { message: string }) => Promise<Hex>;
+  endpoint?: string;
+}): MintHistorySync {
+  const auths = new Map<string, { expiresAt: number; signature: Hex }>();
+  // One signature prompt at a time per owner, shared by concurrent pushes
+  const prompts = new Map<string, Promise<{ expiresAt: number; signature: Hex }>>();
+
+  const getAuth = (owner: Address) => {
+    const key = owner.toLowerCase();
+    const auth = auths.get(key);
+    if (auth && auth.expiresAt > Date.now() + 60_000) return Promise.resolve(auth);
+
+    let prompt = prompts.get(key);
+    if (!prompt) {
+      const expiresAt = Date.now() + MINT_HISTORY_SYNC_TTL_MS;
+      prompt = signMessage({ message: getMintHistorySyncMessage(owner, expiresAt) })
+        .then((signature) => {
+          const next = { expiresAt, signature };
+          auths.set(key, next);
+          return next;
+        })
+        .finally(() => prompts.delete(key));
+      prompts.set(key, prompt);
+    }
+    return prompt;
+  };
+
+  return {
+    pull: async (owner) => {
+      const res = await fetch(`${endpoint}?owner=${owner}`);
+      if (!res.ok) throw new Error(`Mint history pull failed with status ${res.status}`);
+      const { records } = await res.json();
+      return records as MintRecord[];
+    },
+    push: async (owner, records) => {
+      const auth = await getAuth(owner);
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ owner, records, ...auth }),
+      });
+      if (!res.ok) throw new Error(`Mint history push failed with status ${res.status}`);
+    },
+  };
+}
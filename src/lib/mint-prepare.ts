@@ -0,0 +1,164 @@
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import type { MintCostBreakdown, MintParams, MintPriceData, NFTContractInfo } from "~/lib/types";
+import { getPublicClient } from "~/lib/chains";
+import { validateParameters } from "~/lib/provider-detector";
+import { applyAllowlistPrice, buildMintCall, getMintAccount } from "~/lib/provider-configs";
+import { getErc20Cost } from "~/lib/mint-reducer";
+import { detectNFTProviderCached, fetchPriceDataCached } from "~/lib/detection-cache";
+import { estimateMintGas, getCostBreakdown } from "~/lib/cost-breakdown";
+import { parseWithBigInt, stringifyWithBigInt } from "~/lib/utils";
+
+/**
+ * ERC20 approval the minter needs before the mint call
+ */
+export interface MintApproval {
+  chainId: number;
+  token: Address;
+  spender: Address;
+  amount: bigint;
+  /** Current allowance, when the minter is known */
+  allowance?: bigint;
+  required: boolean;
+}
+
+export type MintPreparation =
+  | {
+      isValid: false;
+      contractInfo: NFTContractInfo;
+      missingParams: string[];
+      errors: string[];
+    }
+  | {
+      isValid: true;
+      contractInfo: NFTContractInfo;
+      priceData: MintPriceData;
+      approval: MintApproval | null;
+      call: { to: Address; data: Hex; value: bigint };
+      breakdown: MintCostBreakdown;
+      simulationError?: string;
+    };
+
+/**
+ * Contract that pulls the ERC20 payment (Manifold claims pay through the extension)
+ */
+export function getPaymentSpender(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): Address {
+  return contractInfo.provider === "manifold" && contractInfo.extensionAddress
+    ? contractInfo.extensionAddress
+    : params.contractAddress;
+}
+
+/**
+ * Run detection, validation, pricing and (with an account) simulation in one go
+ * and return a ready-to-send transaction
+ */
+export async function prepareMint(params: MintParams): Promise<MintPreparation> {
+  const contractInfo = await detectNFTProviderCached(params);
+
+  const validation = validateParameters(params, contractInfo);
+  if (!validation.isValid) {
+    return {
+      isValid: false,
+      contractInfo,
+      missingParams: validation.missingParams,
+      errors: validation.errors,
+    };
+  }
+
+  const client = getPublicClient(params.chainId);
+  // Allowlist price overrides the claim condition price, for ERC20 and native payment alike
+  const priceData = applyAllowlistPrice(
+    params,
+    contractInfo,
+    await fetchPriceDataCached(client, params, contractInfo),
+  );
+
+  // Pricing can rule the mint out too (e.g. no supported Zora minter)
+  const saleValidation = validateParameters(params, contractInfo);
+  if (!saleValidation.isValid) {
+    return {
+      isValid: false,
+      contractInfo,
+      missingParams: saleValidation.missingParams,
+      errors: saleValidation.errors,
+    };
+  }
+
+  let approval: MintApproval | null = null;
+  if (priceData.erc20Details) {
+    contractInfo.erc20Token = priceData.erc20Details.address as Address;
+    contractInfo.erc20Symbol = priceData.erc20Details.symbol;
+    contractInfo.erc20Decimals = priceData.erc20Details.decimals;
+
+    const amount = getErc20Cost(contractInfo, priceData, params.amount || 1);
+    const allowance = priceData.erc20Details.allowance;
+    approval = {
+      chainId: params.chainId,
+      token: priceData.erc20Details.address as Address,
+      spender: getPaymentSpender(params, contractInfo),
+      amount,
+      allowance,
+      // Without an account we can't read the allowance, so assume approval is needed
+      required: allowance === undefined || allowance < amount,
+    };
+  }
+
+  const mintCall = buildMintCall(params, contractInfo, priceData);
+  const call = {
+    to: mintCall.address,
+    data: encodeFunctionData({
+      abi: mintCall.abi,
+      functionName: mintCall.functionName,
+      args: mintCall.args,
+    }),
+    value: mintCall.value,
+  };
+
+  // Simulation only makes sense for a known minter that already has the allowance.
+  // The paying account sends the tx; the recipient only appears in the call args.
+  const account = getMintAccount(params);
+  let simulationError: string | undefined;
+  if (account && !approval?.required) {
+    try {
+      await client.call({ account, ...call });
+    } catch (error) {
+      simulationError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const gas = account && !approval?.required && !simulationError
+    ? await estimateMintGas(client, mintCall, account)
+    : null;
+
+  return {
+    isValid: true,
+    contractInfo,
+    priceData,
+    approval,
+    call,
+    breakdown: getCostBreakdown(params, contractInfo, priceData, gas ?? undefined),
+    simulationError,
+  };
+}
+
+/**
+ * Call the /api/mint/prepare route (keeps RPC keys and repeated detection on the server)
+ */
+export async function prepareMintViaApi(
+  params: MintParams,
+  endpoint = "/api/mint/prepare",
+): Promise<MintPreparation> {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: stringifyWithBigInt(params),
+  });
+
+  const body = parseWithBigInt<MintPreparation | { error: string }>(await res.text());
+  if ("error" in body) {
+    throw new Error(body.error);
+  }
+  return body;
+}
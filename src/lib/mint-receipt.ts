@@ -0,0 +1,75 @@
+import { isAddressEqual, parseEventLogs, type Address, type Hash, type Hex, type Log } from "viem";
+import { getChainById, getPublicClient } from "~/lib/chains";
+import { NFT_TRANSFER_EVENTS_ABI } from "~/lib/nft-standards";
+
+/**
+ * Token received by the recipient in a mint transaction
+ */
+export type MintedToken = {
+  contractAddress: Address;
+  tokenId: string;
+  /** Always 1 for ERC721 */
+  amount: bigint;
+  standard: "erc721" | "erc1155";
+};
+
+/**
+ * Decode ERC721 Transfer and ERC1155 TransferSingle/TransferBatch logs from the NFT contract
+ * to the recipient. Quantities of the same ERC1155 id are summed.
+ */
+export function getMintedTokens(
+  logs: readonly { address: Address; data: Hex; topics: readonly Hex[] }[],
+  { contractAddress, recipient }: { contractAddress: Address; recipient: Address },
+): MintedToken[] {
+  const tokens = new Map<string, MintedToken>();
+  const add = (token: MintedToken) => {
+    const existing = tokens.get(token.tokenId);
+    tokens.set(token.tokenId, existing ? { ...existing, amount: existing.amount + token.amount } : token);
+  };
+
+  const events = parseEventLogs({ abi: NFT_TRANSFER_EVENTS_ABI, logs: logs as unknown as Log[] });
+  for (const event of events) {
+    if (!isAddressEqual(event.address, contractAddress) || !isAddressEqual(event.args.to, recipient)) {
+      continue;
+    }
+    if (event.eventName === "Transfer") {
+      add({ contractAddress, tokenId: event.args.tokenId.toString(), amount: BigInt(1), standard: "erc721" });
+    } else if (event.eventName === "TransferSingle") {
+      add({ contractAddress, tokenId: event.args.id.toString(), amount: event.args.value, standard: "erc1155" });
+    } else {
+      event.args.ids.forEach((id, i) =>
+        add({ contractAddress, tokenId: id.toString(), amount: event.args.values[i], standard: "erc1155" }),
+      );
+    }
+  }
+
+  return [...tokens.values()];
+}
+
+/**
+ * Fetch a confirmed receipt and decode the minted tokens; empty when the receipt can't be read
+ */
+export async function fetchMintedTokens(
+  chainId: number,
+  hash: Hash,
+  filter: { contractAddress: Address; recipient: Address },
+): Promise<MintedToken[]> {
+  try {
+    const receipt = await getPublicClient(chainId).getTransactionReceipt({ hash });
+    return getMintedTokens(receipt.logs, filter);
+  } catch (error) {
+    console.warn("[Mint receipt] Could not read minted tokens:", error);
+    return [];
+  }
+}
+
+/**
+ * Block explorer page for a minted token, falling back to txha.sh for the transaction
+ */
+export function getMintedTokenUrl(chainId: number, token: MintedToken, txHash?: string): string | undefined {
+  const explorer = getChainById(chainId).blockExplorers?.default.url;
+  if (explorer) {
+    return `${explorer}/nft/${token.contractAddress}/${token.tokenId}`;
+  }
+  return txHash ? `https://txha.sh/${txHash}` : undefined;
+}
@@ -1,6 +1,12 @@
-import type { NFTContractInfo } from "~/lib/types";
+import { maxUint256, type ReplacementReason } from "viem";
+import type { AllowlistEntry, GasEstimate, MintParams, NFTContractInfo, WalletMintLimit } from "~/lib/types";
+import type { MintWindow } from "~/lib/mint-window";
+import type { MintApproval, MintPreparation } from "~/lib/mint-prepare";
+import type { PermitPlan } from "~/lib/permit";
+import type { MintedToken } from "~/lib/mint-receipt";
+import { aggregateApprovals } from "~/lib/mint-cart";
 
-export type MintStep = "initial" | "detecting" | "sheet" | "connecting" | "approve" | "approving" | "minting" | "waiting" | "success" | "error" | "validation-error";
+export type MintStep = "initial" | "detecting" | "sheet" | "connecting" | "approve" | "approving" | "minting" | "waiting" | "stalled" | "dropped" | "success" | "error" | "validation-error" | "not-eligible" | "not-started" | "ended";
 
 export type TransactionType = "approval" | "mint" | null;
 
@@ -9,6 +15,8 @@ export type MintState = {
   contractInfo: NFTContractInfo | null;
   priceData: {
     mintPrice?: bigint;
+    unitPrice?: bigint;
+    protocolFee?: bigint;
     totalCost: bigint;
     erc20Details?: {
       address: string;
@@ -16,15 +24,28 @@ export type MintState = {
       decimals: number;
       allowance?: bigint;
       needsApproval?: boolean;
+      /** Signature-based alternative to the approve step, when available */
+      permit?: PermitPlan;
     };
   };
   error?: string;
   txHash?: string;
   txType: TransactionType;
+  /** Tokens decoded from the mint receipt */
+  mintedTokens: MintedToken[];
   isLoading: boolean;
   validationErrors: string[];
+  allowlistEntry?: AllowlistEntry;
+  quantity: number;
+  walletLimit?: WalletMintLimit;
+  mintWindow?: MintWindow;
+  gasEstimate?: GasEstimate;
+  /** Approve exactly the cost of the selected quantity, or max uint256 */
+  approvalMode: ApprovalMode;
 };
 
+export type ApprovalMode = "exact" | "unlimited";
+
 export const initialState: MintState = {
   step: "initial",
   contractInfo: null,
@@ -32,15 +53,53 @@ export const initialState: MintState = {
   error: undefined,
   txHash: undefined,
   txType: null,
+  mintedTokens: [],
   isLoading: false,
-  validationErrors: []
+  validationErrors: [],
+  quantity: 1,
+  approvalMode: "exact"
 };
 
+/**
+ * ERC20 amount the claim pulls for the selected quantity: the Manifold claim cost,
+ * or the unit price for other providers (e.g. thirdweb ERC20 claim conditions)
+ */
+export function getErc20Cost(
+  contractInfo: NFTContractInfo | null,
+  priceData: Pick<MintState["priceData"], "unitPrice">,
+  quantity: number,
+): bigint {
+  return (contractInfo?.claim?.cost ?? priceData.unitPrice ?? BigInt(0)) * BigInt(quantity);
+}
+
+/**
+ * Allowance to request for the chosen approval mode
+ */
+export function getApprovalAmount(
+  contractInfo: NFTContractInfo | null,
+  priceData: Pick<MintState["priceData"], "unitPrice">,
+  quantity: number,
+  mode: ApprovalMode,
+): bigint {
+  return mode === "unlimited" ? maxUint256 : getErc20Cost(contractInfo, priceData, quantity);
+}
+
 export type MintAction = 
   | { type: "DETECT_START" }
   | { type: "DETECT_SUCCESS"; payload: { contractInfo: NFTContractInfo; priceData: MintState["priceData"] } }
   | { type: "DETECT_ERROR"; payload: string }
   | { type: "VALIDATION_ERROR"; payload: string[] }
+  | { type: "ALLOWLIST_RESOLVED"; payload: AllowlistEntry }
+  | { type: "NOT_ELIGIBLE"; payload: string }
+  | { type: "SET_QUANTITY"; payload: { quantity: number; totalCost: bigint } }
+  | { type: "WALLET_LIMIT_RESOLVED"; payload: WalletMintLimit }
+  | { type: "MINT_NOT_STARTED"; payload: MintWindow }
+  | { type: "MINT_ENDED"; payload: MintWindow }
+  | { type: "MINT_WINDOW_OPENED" }
+  | { type: "GAS_ESTIMATED"; payload: GasEstimate | undefined }
+  | { type: "PERMIT_AVAILABLE"; payload: PermitPlan }
+  | { type: "PERMIT_FALLBACK" }
+  | { type: "SET_APPROVAL_MODE"; payload: ApprovalMode }
   | { type: "APPROVE_REQUIRED" }
   | { type: "APPROVE_START" }
   | { type: "APPROVE_TX_SUBMITTED"; payload: string }
@@ -49,8 +108,13 @@ export type MintAction =
   | { type: "CONNECT_SUCCESS" }
   | { type: "MINT_START" }
   | { type: "MINT_TX_SUBMITTED"; payload: string }
-  | { type: "TX_SUCCESS"; payload: string }
+  | { type: "CROSS_CHAIN_PAYMENT_STARTED" }
+  | { type: "MINT_BATCH_SUBMITTED" }
+  | { type: "TX_SUCCESS"; payload: { txHash: string; mintedTokens: MintedToken[] } }
   | { type: "TX_ERROR"; payload: string }
+  | { type: "TX_REPLACED"; payload: { txHash: string; reason: ReplacementReason } }
+  | { type: "TX_STALLED" }
+  | { type: "TX_DROPPED"; payload: string }
   | { type: "RESET" }
   | { type: "UPDATE_ALLOWANCE"; payload: bigint };
 
@@ -61,10 +125,10 @@ export function mintReducer(state: MintState, action: MintAction): MintState {
       
     case "DETECT_SUCCESS":
       // Check if approval is needed based on allowance
-      const needsApproval = action.payload.priceData.erc20Details && 
-        action.payload.contractInfo.claim &&
+      const needsApproval = !!action.payload.priceData.erc20Details &&
         (action.payload.priceData.erc20Details.allowance !== undefined) &&
-        (action.payload.priceData.erc20Details.allowance < action.payload.contractInfo.claim.cost);
+        (action.payload.priceData.erc20Details.allowance <
+          getErc20Cost(action.payload.contractInfo, action.payload.priceData, state.quantity));
         
       return {
         ...state,
@@ -86,6 +150,91 @@ export function mintReducer(state: MintState, action: MintAction): MintState {
     case "VALIDATION_ERROR":
       return { ...state, step: "validation-error", validationErrors: action.payload, isLoading: false };
       
+    case "ALLOWLIST_RESOLVED":
+      return { ...state, allowlistEntry: action.payload };
+      
+    case "NOT_ELIGIBLE":
+      return { ...state, step: "not-eligible", error: action.payload, isLoading: false };
+      
+    case "SET_QUANTITY": {
+      const erc20Details = state.priceData.erc20Details;
+      const quantityNeedsApproval = !!erc20Details &&
+        erc20Details.allowance !== undefined &&
+        erc20Details.allowance < getErc20Cost(state.contractInfo, state.priceData, action.payload.quantity);
+
+      return {
+        ...state,
+        quantity: action.payload.quantity,
+        // A larger quantity can push the ERC20 cost above the current allowance
+        step: state.step === "sheet" && quantityNeedsApproval && !erc20Details?.permit
+          ? "approve"
+          : state.step === "approve" && !quantityNeedsApproval
+          ? "sheet"
+          : state.step,
+        priceData: {
+          ...state.priceData,
+          totalCost: action.payload.totalCost,
+          erc20Details: erc20Details ? {
+            ...erc20Details,
+            needsApproval: quantityNeedsApproval
+          } : undefined
+        }
+      };
+    }
+      
+    case "WALLET_LIMIT_RESOLVED":
+      return { ...state, walletLimit: action.payload };
+      
+    case "MINT_NOT_STARTED":
+      return { ...state, step: "not-started", mintWindow: action.payload, isLoading: false };
+      
+    case "MINT_ENDED":
+      return { ...state, step: "ended", mintWindow: action.payload, isLoading: false };
+      
+    case "MINT_WINDOW_OPENED":
+      if (state.step !== "not-started") return state;
+      return {
+        ...state,
+        step: state.priceData.erc20Details?.needsApproval && !state.priceData.erc20Details.permit
+          ? "approve"
+          : "sheet"
+      };
+      
+    case "GAS_ESTIMATED":
+      return { ...state, gasEstimate: action.payload };
+      
+    case "PERMIT_AVAILABLE":
+      if (!state.priceData.erc20Details) return state;
+      // The signature is collected as part of the mint, so the approve step goes away
+      return {
+        ...state,
+        step: state.step === "approve" ? "sheet" : state.step,
+        priceData: {
+          ...state.priceData,
+          erc20Details: { ...state.priceData.erc20Details, permit: action.payload }
+        }
+      };
+      
+    case "PERMIT_FALLBACK":
+      if (!state.priceData.erc20Details) return state;
+      return {
+        ...state,
+        // Only steps that relied on the permit fall back to the classic approve step
+        // ("waiting" when the permit + mint batch reverted)
+        step: state.step === "sheet" || state.step === "minting" || state.step === "waiting"
+          ? state.priceData.erc20Details.needsApproval ? "approve" : "sheet"
+          : state.step,
+        isLoading: false,
+        txType: state.step === "minting" || state.step === "waiting" ? null : state.txType,
+        priceData: {
+          ...state.priceData,
+          erc20Details: { ...state.priceData.erc20Details, permit: undefined }
+        }
+      };
+      
+    case "SET_APPROVAL_MODE":
+      return { ...state, approvalMode: action.payload };
+      
     case "APPROVE_REQUIRED":
       return { ...state, step: "approve" };
       
@@ -107,7 +256,7 @@ export function mintReducer(state: MintState, action: MintAction): MintState {
           erc20Details: state.priceData.erc20Details ? {
             ...state.priceData.erc20Details,
             needsApproval: false,
-            allowance: state.contractInfo?.claim?.cost || BigInt(0)
+            allowance: getApprovalAmount(state.contractInfo, state.priceData, state.quantity, state.approvalMode)
           } : undefined
         }
       };
@@ -124,24 +273,63 @@ export function mintReducer(state: MintState, action: MintAction): MintState {
     case "MINT_TX_SUBMITTED":
       return { ...state, step: "waiting", txHash: action.payload, txType: "mint" };
       
+    case "CROSS_CHAIN_PAYMENT_STARTED":
+      // Daimo Pay executes the mint on the target chain; TX_SUCCESS carries the destination tx
+      return { ...state, step: "waiting", txHash: undefined, txType: "mint", isLoading: true };
+      
+    case "MINT_BATCH_SUBMITTED":
+      // EIP-5792 batches report an id rather than a tx hash; MINT_TX_SUBMITTED follows once they land
+      return { ...state, step: "waiting", txHash: undefined, txType: "mint" };
+      
     case "TX_SUCCESS":
       // Only show success for mint transactions
       return state.txType === "mint" 
-        ? { ...state, step: "success", txHash: action.payload, isLoading: false, txType: null }
+        ? {
+            ...state,
+            step: "success",
+            txHash: action.payload.txHash,
+            mintedTokens: action.payload.mintedTokens,
+            isLoading: false,
+            txType: null,
+          }
         : state;
       
     case "TX_ERROR":
       return { ...state, step: "error", error: action.payload, isLoading: false, txType: null };
       
+    case "TX_REPLACED":
+      // A sped-up tx does the same thing with a new hash; cancelled or replaced ones never will
+      return action.payload.reason === "repriced"
+        ? { ...state, step: "waiting", txHash: action.payload.txHash }
+        : {
+            ...state,
+            step: "dropped",
+            txHash: action.payload.txHash,
+            error: action.payload.reason === "cancelled"
+              ? "The transaction was cancelled in your wallet"
+              : "The transaction was replaced by another one from your wallet",
+            isLoading: false,
+            txType: null,
+          };
+      
+    case "TX_STALLED":
+      return state.step === "waiting" ? { ...state, step: "stalled" } : state;
+      
+    case "TX_DROPPED":
+      return { ...state, step: "dropped", error: action.payload, isLoading: false, txType: null };
+      
     case "UPDATE_ALLOWANCE":
       if (!state.priceData.erc20Details) return state;
       
-      const updatedNeedsApproval = state.contractInfo?.claim 
-        ? action.payload < state.contractInfo.claim.cost
-        : false;
-        
+      const updatedNeedsApproval =
+        action.payload < getErc20Cost(state.contractInfo, state.priceData, state.quantity);
+
       return {
         ...state,
+        // Allowance read after connecting the wallet can move the sheet to the approve step
+        step: state.step === "sheet" && updatedNeedsApproval && !state.priceData.erc20Details.permit
+          ? "approve"
+          : state.step,
         priceData: {
           ...state.priceData,
           erc20Details: {
@@ -153,9 +341,199 @@ export function mintReducer(state: MintState, action: MintAction): MintState {
       };
       
     case "RESET":
-      return initialState;
+      // Keep the minter's chosen quantity and approval mode across sheet opens
+      return { ...initialState, quantity: state.quantity, approvalMode: state.approvalMode };
       
     default:
       return state;
   }
-}
\ No newline at end of file
+}
+export type CartItemStatus = "preparing" | "ready" | "invalid" | "submitted" | "success" | "error";
+
+export type CartItem = {
+  id: string;
+  label?: string;
+  params: MintParams;
+  status: CartItemStatus;
+  preparation?: Extract<MintPreparation, { isValid: true }>;
+  error?: string;
+  txHash?: string;
+};
+
+export type CartStep = "idle" | "preparing" | "review" | "approving" | "submitting" | "done";
+
+export type CartState = {
+  step: CartStep;
+  items: CartItem[];
+  /** ERC20 approvals merged across items (see aggregateApprovals) */
+  approvals: MintApproval[];
+  mode?: "batch" | "sequential";
+  batchId?: string;
+  error?: string;
+};
+
+export const initialCartState: CartState = {
+  step: "idle",
+  items: [],
+  approvals: [],
+};
+
+export type CartAction =
+  | { type: "CART_PREPARE_START"; payload: Pick<CartItem, "id" | "label" | "params">[] }
+  | { type: "CART_ITEM_PREPARED"; payload: { id: string; preparation: MintPreparation } }
+  | { type: "CART_ITEM_ERROR"; payload: { id: string; error: string } }
+  | { type: "CART_REMOVE_ITEM"; payload: string }
+  | { type: "CART_SUBMIT_START"; payload: "batch" | "sequential" }
+  | { type: "CART_APPROVAL_CONFIRMED"; payload: MintApproval }
+  | { type: "CART_BATCH_SUBMITTED"; payload: string }
+  | { type: "CART_BATCH_SUCCESS"; payload: string | undefined }
+  | { type: "CART_BATCH_FAILED"; payload: string }
+  | { type: "CART_ITEM_SUBMITTED"; payload: { id: string; txHash: string } }
+  | { type: "CART_ITEM_SUCCESS"; payload: { id: string; txHash: string } }
+  | { type: "CART_ITEM_FAILED"; payload: { id: string; error: string } }
+  | { type: "CART_RESET" };
+
+const isSettled = (item: CartItem) =>
+  item.status === "success" || item.status === "error" || item.status === "invalid";
+
+/**
+ * Move to review once every item is prepared, recomputing the merged approvals
+ */
+function withPreparedItems(state: CartState, items: CartItem[]): CartState {
+  if (items.some((item) => item.status === "preparing")) {
+    return { ...state, items };
+  }
+  const approvals = aggregateApprovals(
+    items.flatMap((item) =>
+      item.status === "ready" && item.preparation?.approval ? [item.preparation.approval] : [],
+    ),
+  );
+  return { ...state, step: "review", items, approvals };
+}
+
+/**
+ * Finish the checkout once no item is waiting on a transaction
+ */
+function withSubmittedItems(state: CartState, items: CartItem[]): CartState {
+  return { ...state, items, step: items.every(isSettled) ? "done" : state.step };
+}
+
+export function cartReducer(state: CartState, action: CartAction): CartState {
+  const updateItem = (id: string, update: Partial<CartItem>) =>
+    state.items.map((item) => (item.id === id ? { ...item, ...update } : item));
+
+  switch (action.type) {
+    case "CART_PREPARE_START":
+      return {
+        ...initialCartState,
+        step: action.payload.length > 0 ? "preparing" : "idle",
+        items: action.payload.map((item) => ({ ...item, status: "preparing" })),
+      };
+
+    case "CART_ITEM_PREPARED": {
+      const { id, preparation } = action.payload;
+      return withPreparedItems(
+        state,
+        preparation.isValid
+          ? updateItem(id, {
+              status: preparation.simulationError ? "invalid" : "ready",
+              preparation,
+              error: preparation.simulationError,
+            })
+          : updateItem(id, { status: "invalid", error: preparation.errors.join(", ") }),
+      );
+    }
+
+    case "CART_ITEM_ERROR":
+      return withPreparedItems(
+        state,
+        updateItem(action.payload.id, { status: "invalid", error: action.payload.error }),
+      );
+
+    case "CART_REMOVE_ITEM":
+      return withPreparedItems(
+        state,
+        state.items.filter((item) => item.id !== action.payload),
+      );
+
+    case "CART_SUBMIT_START":
+      return {
+        ...state,
+        mode: action.payload,
+        step: state.approvals.some((a) => a.required) && action.payload === "sequential"
+          ? "approving"
+          : "submitting",
+        error: undefined,
+      };
+
+    case "CART_APPROVAL_CONFIRMED": {
+      const approvals = state.approvals.map((a) =>
+        a.chainId === action.payload.chainId &&
+        a.token === action.payload.token &&
+        a.spender === action.payload.spender
+          ? { ...a, allowance: a.amount, required: false }
+          : a,
+      );
+      return {
+        ...state,
+        approvals,
+        step: approvals.some((a) => a.required) ? "approving" : "submitting",
+      };
+    }
+
+    case "CART_BATCH_SUBMITTED":
+      return {
+        ...state,
+        batchId: action.payload,
+        items: state.items.map((item) =>
+          item.status === "ready" ? { ...item, status: "submitted" } : item,
+        ),
+      };
+
+    case "CART_BATCH_SUCCESS":
+      return {
+        ...state,
+        step: "done",
+        items: state.items.map((item) =>
+          item.status === "submitted" ? { ...item, status: "success", txHash: action.payload } : item,
+        ),
+      };
+
+    case "CART_BATCH_FAILED":
+      // Atomic batches revert together, so every submitted item failed
+      return {
+        ...state,
+        step: "done",
+        error: action.payload,
+        items: state.items.map((item) =>
+          item.status === "ready" || item.status === "submitted"
+            ? { ...item, status: "error", error: action.payload }
+            : item,
+        ),
+      };
+
+    case "CART_ITEM_SUBMITTED":
+      return {
+        ...state,
+        items: updateItem(action.payload.id, { status: "submitted", txHash: action.payload.txHash }),
+      };
+
+    case "CART_ITEM_SUCCESS":
+      return withSubmittedItems(
+        state,
+        updateItem(action.payload.id, { status: "success", txHash: action.payload.txHash }),
+      );
+
+    case "CART_ITEM_FAILED":
+      return withSubmittedItems(
+        state,
+        updateItem(action.payload.id, { status: "error", error: action.payload.error }),
+      );
+
+    case "CART_RESET":
+      return initialCartState;
+
+    default:
+      return state;
+  }
+}
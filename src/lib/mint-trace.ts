@@ -0,0 +1,189 @@
+import { stringifyWithBigInt } from "~/lib/utils";
+
+/** Query param that turns tracing on without a code change, e.g. ?mintDebug=1 */
+export const MINT_DEBUG_PARAM = "mintDebug";
+
+export type TraceSpanName = "detect" | "price" | "allowance" | "simulate" | "write" | "confirm";
+
+export type TraceEventLevel = "info" | "warn" | "error";
+
+export type TraceEvent = {
+  /** Milliseconds since the trace started */
+  at: number;
+  level: TraceEventLevel;
+  message: string;
+  data?: unknown;
+};
+
+export type TraceSpan = {
+  id: number;
+  name: TraceSpanName;
+  /** Milliseconds since the trace started */
+  startedAt: number;
+  durationMs?: number;
+  status: "running" | "ok" | "error";
+  /** JSON-RPC requests sent through app transports while the span was innermost */
+  rpcCalls: number;
+  error?: string;
+  events: TraceEvent[];
+};
+
+export type TraceSpanHandle = {
+  end: (error?: unknown) => void;
+};
+
+/**
+ * Collects named, timed spans for one mint flow. A disabled tracer records nothing.
+ */
+export type MintTracer = {
+  readonly enabled: boolean;
+  getSpans: () => readonly TraceSpan[];
+  start: (name: TraceSpanName) => TraceSpanHandle;
+  span: <T>(name: TraceSpanName, fn: () => Promise<T>) => Promise<T>;
+  log: (message: string, data?: unknown, level?: TraceEventLevel) => void;
+  subscribe: (listener: () => void) => () => void;
+  clear: () => void;
+  serialize: () => string;
+};
+
+// Tracer whose span is currently open; lib code without a tracer handle reports here
+let activeTracer: { log: MintTracer["log"]; countRpc: () => void } | null = null;
+
+const NOOP_HANDLE: TraceSpanHandle = { end: () => {} };
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Whether tracing is on: an explicit debug flag wins, otherwise the ?mintDebug query param
+ */
+export function isMintTraceEnabled(debug?: boolean): boolean {
+  if (debug !== undefined) return debug;
+  if (typeof window === "undefined") return false;
+  return new URLSearchParams(window.location.search).has(MINT_DEBUG_PARAM);
+}
+
+/**
+ * Create a tracer for a mint flow
+ */
+export function createMintTracer(enabled: boolean): MintTracer {
+  let origin = Date.now();
+  let nextId = 1;
+  let spans: TraceSpan[] = [];
+  // Open spans, innermost last; events and RPC calls go to the innermost
+  const open: TraceSpan[] = [];
+  const listeners = new Set<() => void>();
+
+  const now = () => Date.now() - origin;
+  // Listeners get a fresh array so React state sees the change
+  const notify = () => {
+    spans = [...spans];
+    listeners.forEach((listener) => listener());
+  };
+
+  const tracer: MintTracer = {
+    enabled,
+    getSpans: () => spans,
+
+    start(name) {
+      if (!enabled) return NOOP_HANDLE;
+      const span: TraceSpan = {
+        id: nextId++,
+        name,
+        startedAt: now(),
+        status: "running",
+        rpcCalls: 0,
+        events: [],
+      };
+      spans.push(span);
+      open.push(span);
+      activeTracer = internals;
+      notify();
+
+      let ended = false;
+      return {
+        end(error) {
+          if (ended) return;
+          ended = true;
+          span.durationMs = now() - span.startedAt;
+          span.status = error === undefined ? "ok" : "error";
+          if (error !== undefined) span.error = errorMessage(error);
+          // Gone already when the trace was cleared while the span was open
+          const index = open.indexOf(span);
+          if (index !== -1) open.splice(index, 1);
+          if (open.length === 0 && activeTracer === internals) activeTracer = null;
+          notify();
+        },
+      };
+    },
+
+    async span(name, fn) {
+      const handle = tracer.start(name);
+      try {
+        const result = await fn();
+        handle.end();
+        return result;
+      } catch (error) {
+        handle.end(error);
+        throw error;
+      }
+    },
+
+    log(message, data, level = "info") {
+      if (!enabled) return;
+      const span = open[open.length - 1] ?? spans[spans.length - 1];
+      if (!span) return;
+      span.events.push({ at: now(), level, message, data });
+      const print = level === "info" ? console.debug : console[level];
+      print(`[trace:${span.name}] ${message}`, ...(data === undefined ? [] : [data]));
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    clear() {
+      origin = Date.now();
+      spans = [];
+      open.length = 0;
+      if (activeTracer === internals) activeTracer = null;
+      notify();
+    },
+
+    serialize: () =>
+      JSON.stringify(
+        {
+          startedAt: new Date(origin).toISOString(),
+          userAgent: typeof navigator === "undefined" ? undefined : navigator.userAgent,
+          spans: JSON.parse(stringifyWithBigInt(spans)),
+        },
+        null,
+        2,
+      ),
+  };
+
+  const internals = {
+    log: tracer.log,
+    countRpc: () => {
+      const span = open[open.length - 1];
+      if (span) span.rpcCalls++;
+    },
+  };
+
+  return tracer;
+}
+
+/**
+ * Add an event to whichever mint span is open; silent when tracing is off
+ */
+export function traceLog(message: string, data?: unknown, level?: TraceEventLevel): void {
+  activeTracer?.log(message, data, level);
+}
+
+/**
+ * Count an outgoing RPC request against the open mint span
+ */
+export function traceRpcCall(): void {
+  activeTracer?.countRpc();
+}
@@ -0,0 +1,75 @@
+import type { NFTContractInfo } from "~/lib/types";
+
+/**
+ * Mint window in unix seconds; a missing bound means open-ended
+ */
+export type MintWindow = {
+  start?: number;
+  end?: number;
+};
+
+export type MintWindowStatus = "not-started" | "open" | "ended";
+
+// Zora and SeaDrop use type(uint64).max / far-future values for "never ends"
+const MAX_REASONABLE_TIMESTAMP = 2 ** 40;
+
+const toBound = (value: number | undefined) =>
+  value && value > 0 && value < MAX_REASONABLE_TIMESTAMP ? value : undefined;
+
+/**
+ * Read the mint window from the claim/sale state fetched by fetchPriceData
+ */
+export function getMintWindow(contractInfo: NFTContractInfo): MintWindow {
+  if (contractInfo.claim) {
+    return {
+      start: toBound(contractInfo.claim.startDate),
+      end: toBound(contractInfo.claim.endDate),
+    };
+  }
+  // thirdweb phases have no end; the next phase's start replaces them
+  if (contractInfo.claimCondition) {
+    return { start: toBound(contractInfo.claimCondition.startTimestamp) };
+  }
+  if (contractInfo.zoraSale) {
+    return {
+      start: toBound(contractInfo.zoraSale.saleStart),
+      end: toBound(contractInfo.zoraSale.saleEnd),
+    };
+  }
+  if (contractInfo.publicDrop) {
+    return {
+      start: toBound(contractInfo.publicDrop.startTime),
+      end: toBound(contractInfo.publicDrop.endTime),
+    };
+  }
+  return {};
+}
+
+/**
+ * Where "now" falls relative to the mint window
+ */
+export function getMintWindowStatus(
+  window: MintWindow,
+  now = Math.floor(Date.now() / 1000),
+): MintWindowStatus {
+  if (window.start !== undefined && now < window.start) return "not-started";
+  if (window.end !== undefined && now >= window.end) return "ended";
+  return "open";
+}
+
+/**
+ * Format seconds as "2d 4h 10m", "3h 05m 20s" or "45s"
+ */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(s / 86400);
+  const hours = Math.floor((s % 86400) / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const secs = s % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(secs)}s`;
+  if (minutes > 0) return `${minutes}m ${pad(secs)}s`;
+  return `${secs}s`;
+}
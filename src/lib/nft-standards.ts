@@ -61,6 +61,23 @@ export const ERC20_ABI = parseAbi([
   "function transferFrom(address from, address to, uint256 value) returns (bool)",
 ]);
 
+// EIP-2612 permit extension plus the EIP-5267 domain getter
+export const ERC20_PERMIT_ABI = parseAbi([
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function version() view returns (string)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+// Transfer events emitted on mint. tokenId is indexed on ERC721 Transfer, so ERC20
+// Transfer logs (3 topics) never decode against it
+export const NFT_TRANSFER_EVENTS_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+]);
+
 // Manifold contract detection ABI (kept separate as it's used on the main contract)
 export const MANIFOLD_DETECTION_ABI = parseAbi([
   "function getExtensions() view returns (address[])",
@@ -154,6 +171,20 @@ export const MANIFOLD_ERC721_EXTENSION_ABI = [
     stateMutability: "payable",
     type: "function"
   },
+  {
+    inputs: [
+      { name: "creatorContractAddress", type: "address" },
+      { name: "instanceId", type: "uint256" },
+      { name: "mintCount", type: "uint16" },
+      { name: "mintIndices", type: "uint32[]" },
+      { name: "merkleProofs", type: "bytes32[][]" },
+      { name: "mintFor", type: "address" }
+    ],
+    name: "mintBatch",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  },
   {
     inputs: [],
     name: "MINT_FEE",
@@ -256,6 +287,20 @@ export const MANIFOLD_ERC1155_EXTENSION_ABI = [
     stateMutability: "payable",
     type: "function"
   },
+  {
+    inputs: [
+      { name: "creatorContractAddress", type: "address" },
+      { name: "instanceId", type: "uint256" },
+      { name: "mintCount", type: "uint16" },
+      { name: "mintIndices", type: "uint32[]" },
+      { name: "merkleProofs", type: "bytes32[][]" },
+      { name: "mintFor", type: "address" }
+    ],
+    name: "mintBatch",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  },
   {
     inputs: [],
     name: "MINT_FEE",
@@ -275,6 +320,52 @@ export const MANIFOLD_ERC1155_EXTENSION_ABI = [
 // Backward compatibility - defaults to ERC721 version
 export const MANIFOLD_EXTENSION_ABI = MANIFOLD_ERC721_EXTENSION_ABI;
 
+// Per-wallet mint count, shared by the ERC721 and ERC1155 lazy claim extensions
+export const MANIFOLD_WALLET_MINTS_ABI = parseAbi([
+  "function getTotalMints(address minter, address creatorContractAddress, uint256 instanceId) view returns (uint32)",
+]);
+
+// Custom errors raised by the supported mint contracts, used to decode reverts
+export const MINT_ERRORS_ABI = parseAbi([
+  // thirdweb Drop / DropSinglePhase
+  "error DropClaimExceedLimit(uint256 expected, uint256 actual)",
+  "error DropClaimExceedMaxSupply(uint256 expected, uint256 actual)",
+  "error DropClaimInvalidTokenPrice(address expectedCurrency, uint256 expectedPricePerToken, address actualCurrency, uint256 actualExpectedPricePerToken)",
+  "error DropClaimNotStarted(uint256 expected, uint256 actual)",
+  "error DropClaimMerkleProofInvalid()",
+  "error DropNoActiveCondition()",
+  // Manifold lazy claim extensions
+  "error ClaimInactive()",
+  "error TooManyRequested()",
+  "error InvalidPayment()",
+  "error InvalidInstance()",
+  "error InvalidProof()",
+  // OpenSea SeaDrop
+  "error NotActive(uint256 currentTimestamp, uint256 startTimestamp, uint256 endTimestamp)",
+  "error MintQuantityExceedsMaxMintedPerWallet(uint256 total, uint256 allowed)",
+  "error MintQuantityExceedsMaxSupply(uint256 total, uint256 maxSupply)",
+  "error MintQuantityExceedsMaxTokenSupplyForStage(uint256 total, uint256 maxTokenSupplyForStage)",
+  "error IncorrectPayment(uint256 got, uint256 want)",
+  "error FeeRecipientNotAllowed()",
+  // Zora 1155 and fixed price sale strategy
+  "error SaleEnded()",
+  "error SaleHasNotStarted()",
+  "error WrongValueSent()",
+  "error UserExceedsMintLimit(address user, uint256 limit, uint256 requestedAmount)",
+  "error CannotMintMoreTokens(uint256 tokenId, uint256 quantity, uint256 totalMinted, uint256 maxSupply)",
+  // OpenZeppelin ERC20 (payment tokens)
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+// Common supply getters for ERC721 drops without a provider-specific supply source
+export const SUPPLY_ABI = parseAbi([
+  "function totalSupply() view returns (uint256)",
+  "function totalMinted() view returns (uint256)",
+  "function maxSupply() view returns (uint256)",
+  "function MAX_SUPPLY() view returns (uint256)",
+]);
+
 // ERC165 interface detection
 export const ERC165_ABI = parseAbi([
   "function supportsInterface(bytes4 interfaceId) view returns (bool)",
@@ -284,7 +375,20 @@ export const ERC165_ABI = parseAbi([
 export const KNOWN_CONTRACTS = {
   // Manifold extension contracts
   manifoldExtension: "0x26BBEA7803DcAc346D5F5f135b57Cf2c752A02bE" as Address,
-  
+
+  // Zora fixed price sale strategy (same address on all Zora-supported chains)
+  zoraFixedPriceSaleStrategy: "0x04E2516A2c207E84a1839755675dfd8eF6302F0a" as Address,
+
+  // OpenSea SeaDrop and SeaDrop 1.5 (same address on all supported chains)
+  seaDrop: "0x00005EA00Ac477B1030CE78506496e8C2dE24bf5" as Address,
+  seaDrop15: "0x0000000000664ceffed39244a8312bD895470803" as Address,
+
+  // OpenSea fee recipient allowed on SeaDrop public drops
+  openSeaFeeRecipient: "0x0000a26b00c1F0DF003000390027140000fAa719" as Address,
+
+  // Uniswap Permit2 (same address on all supported chains)
+  permit2: "0x000000000022D473030F116dDEE9F6B43aC78BA3" as Address,
+
   // Add other known contracts here as needed
 } as const;
 
@@ -356,6 +460,16 @@ export const THIRDWEB_OPENEDITONERC721_ABI = [
     ],
     stateMutability: "view",
     type: "function"
+  },
+  {
+    inputs: [
+      { name: "_conditionId", type: "uint256" },
+      { name: "_claimer", type: "address" }
+    ],
+    name: "getSupplyClaimedByWallet",
+    outputs: [{ name: "supplyClaimedByWallet", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
   }
 ] as const;
 
@@ -402,6 +516,55 @@ export const THIRDWEB_ERC1155_EXTENSION_ABI = [
     stateMutability: "view",
     type: "function"
   },
+  {
+    inputs: [
+      { name: "_tokenId", type: "uint256" }
+    ],
+    name: "getActiveClaimConditionId",
+    outputs: [
+      { name: "", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "_tokenId", type: "uint256" },
+      { name: "_conditionId", type: "uint256" }
+    ],
+    name: "getClaimConditionById",
+    outputs: [
+      {
+        components: [
+          { name: "startTimestamp", type: "uint256" },
+          { name: "maxClaimableSupply", type: "uint256" },
+          { name: "supplyClaimed", type: "uint256" },
+          { name: "quantityLimitPerWallet", type: "uint256" },
+          { name: "merkleRoot", type: "bytes32" },
+          { name: "pricePerToken", type: "uint256" },
+          { name: "currency", type: "address" },
+          { name: "metadata", type: "string" }
+        ],
+        name: "condition",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "_tokenId", type: "uint256" },
+      { name: "_conditionId", type: "uint256" },
+      { name: "_claimer", type: "address" }
+    ],
+    name: "getSupplyClaimedByWallet",
+    outputs: [
+      { name: "", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
   {
     inputs: [
       { name: "tokenId", type: "uint256" }
@@ -426,6 +589,185 @@ export const THIRDWEB_ERC1155_EXTENSION_ABI = [
   }
 ] as const;
 
+// Zora 1155 creator contract ABI (detection, fees and mintWithRewards)
+export const ZORA_1155_ABI = [
+  {
+    inputs: [],
+    name: "mintFee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "contractVersion",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "pure",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "nextTokenId",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "tokenId", type: "uint256" },
+      { name: "user", type: "address" }
+    ],
+    name: "getPermissions",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "minter", type: "address" },
+      { name: "tokenId", type: "uint256" },
+      { name: "quantity", type: "uint256" },
+      { name: "minterArguments", type: "bytes" },
+      { name: "mintReferral", type: "address" }
+    ],
+    name: "mintWithRewards",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    name: "getTokenInfo",
+    outputs: [
+      {
+        components: [
+          { name: "uri", type: "string" },
+          { name: "maxSupply", type: "uint256" },
+          { name: "totalMinted", type: "uint256" }
+        ],
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  }
+] as const;
+
+// Zora fixed price sale strategy (minter) ABI
+export const ZORA_FIXED_PRICE_STRATEGY_ABI = [
+  {
+    inputs: [
+      { name: "tokenContract", type: "address" },
+      { name: "tokenId", type: "uint256" }
+    ],
+    name: "sale",
+    outputs: [
+      {
+        components: [
+          { name: "saleStart", type: "uint64" },
+          { name: "saleEnd", type: "uint64" },
+          { name: "maxTokensPerAddress", type: "uint64" },
+          { name: "pricePerToken", type: "uint96" },
+          { name: "fundsRecipient", type: "address" }
+        ],
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "tokenContract", type: "address" },
+      { name: "tokenId", type: "uint256" },
+      { name: "wallet", type: "address" }
+    ],
+    name: "getMintedPerWallet",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  }
+] as const;
+
+// Zora 1155 permission bit granting minting rights (PERMISSION_BIT_MINTER = 2 ** 2)
+export const ZORA_PERMISSION_BIT_MINTER = BigInt(4);
+
+// SeaDrop NFT contract ABI (used on the ERC721SeaDrop token contract)
+export const SEADROP_TOKEN_ABI = parseAbi([
+  "function getAllowedSeaDrop() view returns (address[])",
+  "function getMintStats(address minter) view returns (uint256 minterNumMinted, uint256 currentTotalSupply, uint256 maxSupply)",
+]);
+
+// SeaDrop / SeaDrop 1.5 ABI (public drop config and mintPublic)
+export const SEADROP_ABI = [
+  {
+    inputs: [{ name: "nftContract", type: "address" }],
+    name: "getPublicDrop",
+    outputs: [
+      {
+        components: [
+          { name: "mintPrice", type: "uint80" },
+          { name: "startTime", type: "uint48" },
+          { name: "endTime", type: "uint48" },
+          { name: "maxTotalMintableByWallet", type: "uint16" },
+          { name: "feeBps", type: "uint16" },
+          { name: "restrictFeeRecipients", type: "bool" }
+        ],
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ name: "nftContract", type: "address" }],
+    name: "getAllowedFeeRecipients",
+    outputs: [{ name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { name: "nftContract", type: "address" },
+      { name: "feeRecipient", type: "address" },
+      { name: "minterIfNotPayer", type: "address" },
+      { name: "quantity", type: "uint256" }
+    ],
+    name: "mintPublic",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  }
+] as const;
+
+// NFTs2Me detection ABI (n2mVersion is unique to NFTs2Me contracts)
+export const NFTS2ME_DETECTION_ABI = parseAbi([
+  "function n2mVersion() pure returns (uint256)",
+]);
+
+// thirdweb fingerprint functions used for provider detection
+export const THIRDWEB_DETECTION_ABI = parseAbi([
+  "struct ExtensionMetadata { string name; string metadataURI; address implementation; }",
+  "struct ExtensionFunction { bytes4 functionSelector; string functionSignature; }",
+  "struct Extension { ExtensionMetadata metadata; ExtensionFunction[] functions; }",
+  "function claimCondition() view returns (uint256 currentStartId, uint256 count)",
+  "function sharedMetadata() view returns (string name, string description, string imageURI, string animationURI)",
+  "function contractURI() view returns (string)",
+  "function owner() view returns (address)",
+  "function nextTokenIdToMint() view returns (uint256)",
+  "function getAllExtensions() view returns (Extension[])",
+  "function uri(uint256 tokenId) view returns (string)",
+  "function totalSupply(uint256 id) view returns (uint256)",
+]);
+
+// thirdweb DropERC1155 (multi-phase) claim condition range per token
+export const THIRDWEB_DROP1155_CLAIM_ABI = parseAbi([
+  "function claimCondition(uint256 tokenId) view returns (uint256 currentStartId, uint256 count)",
+]);
+
 // Native ETH address for thirdweb contracts
 export const THIRDWEB_NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as Address;
 
@@ -435,6 +777,7 @@ export const INTERFACE_IDS = {
   ERC721: "0x80ac58cd",
   ERC1155: "0xd9b67a26",
   ERC721Metadata: "0x5b5e139f",
+  ISignatureMintERC1155: "0x4e2312e0",
 } as const;
 
 // IPFS Gateway configuration
@@ -0,0 +1,74 @@
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import { getPublicClient } from "~/lib/chains";
+
+/** How long a tx may sit without a receipt before we check the mempool */
+export const TX_STALL_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Nodes reject replacements that bump fees by less than 10%
+const SPEED_UP_BUMP_PERCENT = BigInt(120);
+
+export type PendingTxStatus = "mined" | "pending" | "dropped";
+
+/**
+ * Where a submitted tx stands: mined, still in the mempool, or unknown to the node.
+ * RPC failures throw rather than reporting a dropped tx.
+ */
+export async function getPendingTxStatus(chainId: number, hash: Hash): Promise<PendingTxStatus> {
+  const client = getPublicClient(chainId);
+  try {
+    await client.getTransactionReceipt({ hash });
+    return "mined";
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+  }
+  try {
+    const tx = await client.getTransaction({ hash });
+    return tx.blockNumber === null ? "pending" : "mined";
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError) return "dropped";
+    throw error;
+  }
+}
+
+export type SpeedUpRequest = {
+  to: Address;
+  data: Hex;
+  value: bigint;
+  nonce: number;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+};
+
+const bump = (fee: bigint) => (fee * SPEED_UP_BUMP_PERCENT) / BigInt(100);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Same call and nonce as a pending tx with fees bumped 20% (or to the current market rate if higher).
+ * Returns null once the tx has been mined or dropped.
+ */
+export async function getSpeedUpRequest(chainId: number, hash: Hash): Promise<SpeedUpRequest | null> {
+  const client = getPublicClient(chainId);
+  const tx = await client.getTransaction({ hash }).catch(() => null);
+  if (!tx || tx.blockNumber !== null || !tx.to) return null;
+
+  const base = { to: tx.to, data: tx.input, value: tx.value, nonce: tx.nonce };
+
+  if (tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined) {
+    const fees = await client.estimateFeesPerGas().catch(() => null);
+    return {
+      ...base,
+      maxFeePerGas: max(bump(tx.maxFeePerGas), fees?.maxFeePerGas ?? BigInt(0)),
+      maxPriorityFeePerGas: max(bump(tx.maxPriorityFeePerGas), fees?.maxPriorityFeePerGas ?? BigInt(0)),
+    };
+  }
+
+  const gasPrice = await client.getGasPrice().catch(() => BigInt(0));
+  return { ...base, gasPrice: max(bump(tx.gasPrice ?? BigInt(0)), gasPrice) };
+}
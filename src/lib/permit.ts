@@ -0,0 +1,172 @@
+import {
+  encodeFunctionData,
+  isAddressEqual,
+  parseSignature,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TypedDataDefinition,
+} from "viem";
+import type { NFTProvider, SignedPermit } from "~/lib/types";
+import { batchReadContracts } from "~/lib/chains";
+import { ERC20_ABI, ERC20_PERMIT_ABI, KNOWN_CONTRACTS } from "~/lib/nft-standards";
+import { getMintAdapter } from "~/lib/provider-registry";
+
+// Signatures stay valid for 30 minutes
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+// EIP-5267 fields bitmap for a plain name/version/chainId/verifyingContract domain (no salt)
+const EIP2612_DOMAIN_FIELDS = "0x0f";
+
+/**
+ * How the mint can skip the approve transaction:
+ * - "eip2612": a permit() call runs ahead of the mint in one atomic EIP-5792 batch
+ * - "permit2": the minter pulls the payment with a Permit2 signature transfer (adapter buildPermit2Mint)
+ */
+export type PermitPlan =
+  | {
+      kind: "eip2612";
+      /** EIP-712 domain name/version read from the token's eip712Domain() */
+      name: string;
+      version: string;
+      nonce: bigint;
+    }
+  | { kind: "permit2"; nonce: bigint };
+
+/**
+ * Work out whether an ERC20 payment can use a permit signature instead of an approval.
+ * Permit2 needs a minter that accepts it and the one-time token approval to Permit2.
+ * EIP-2612 needs batch support and a token that exposes its EIP-5267 domain: a guessed
+ * domain version produces a signature the token rejects. Returns null when only a classic approve will do.
+ */
+export async function getPermitPlan(
+  client: PublicClient,
+  {
+    token,
+    owner,
+    chainId,
+    amount,
+    provider,
+    canBatch,
+  }: {
+    token: Address;
+    owner: Address;
+    chainId: number;
+    /** ERC20 amount the mint pulls */
+    amount: bigint;
+    provider: NFTProvider;
+    /** Wallet supports atomic EIP-5792 batches on this chain */
+    canBatch: boolean;
+  },
+): Promise<PermitPlan | null> {
+  const acceptsPermit2 = !!getMintAdapter(provider)?.buildPermit2Mint;
+  if (!acceptsPermit2 && !canBatch) return null;
+
+  const [nonce, domain, permit2Allowance] = await batchReadContracts(client, [
+    { address: token, abi: ERC20_PERMIT_ABI, functionName: "nonces", args: [owner] },
+    { address: token, abi: ERC20_PERMIT_ABI, functionName: "eip712Domain" },
+    { address: token, abi: ERC20_ABI, functionName: "allowance", args: [owner, KNOWN_CONTRACTS.permit2] },
+  ]);
+
+  if (
+    acceptsPermit2 &&
+    permit2Allowance.status === "success" &&
+    (permit2Allowance.result as bigint) >= amount
+  ) {
+    // SignatureTransfer nonces are an unordered bitmap, so any unused value works
+    const nonce = BigInt(Date.now()) * BigInt(1000) + BigInt(Math.floor(Math.random() * 1000));
+    return { kind: "permit2", nonce };
+  }
+
+  if (!canBatch || nonce.status !== "success" || domain.status !== "success") return null;
+
+  const [fields, name, version, domainChainId, verifyingContract] = domain.result as readonly [
+    Hex,
+    string,
+    string,
+    bigint,
+    Address,
+  ];
+  if (
+    fields !== EIP2612_DOMAIN_FIELDS ||
+    domainChainId !== BigInt(chainId) ||
+    !isAddressEqual(verifyingContract, token)
+  ) {
+    return null;
+  }
+
+  return { kind: "eip2612", name, version, nonce: nonce.result as bigint };
+}
+
+/**
+ * EIP-712 payload for the permit signature
+ */
+export function getPermitTypedData(
+  plan: PermitPlan,
+  {
+    chainId,
+    token,
+    owner,
+    spender,
+    amount,
+    deadline,
+  }: { chainId: number; token: Address; owner: Address; spender: Address; amount: bigint; deadline: bigint },
+): TypedDataDefinition {
+  if (plan.kind === "permit2") {
+    return {
+      domain: { name: "Permit2", chainId, verifyingContract: KNOWN_CONTRACTS.permit2 },
+      types: {
+        PermitTransferFrom: [
+          { name: "permitted", type: "TokenPermissions" },
+          { name: "spender", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+        TokenPermissions: [
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint256" },
+        ],
+      },
+      primaryType: "PermitTransferFrom" as const,
+      message: { permitted: { token, amount }, spender, nonce: plan.nonce, deadline },
+    };
+  }
+
+  return {
+    domain: { name: plan.name, version: plan.version, chainId, verifyingContract: token },
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit" as const,
+    message: { owner, spender, value: amount, nonce: plan.nonce, deadline },
+  };
+}
+
+/**
+ * Deadline for a new permit signature
+ */
+export function getPermitDeadline(now = Math.floor(Date.now() / 1000)): bigint {
+  return BigInt(now + PERMIT_DEADLINE_SECONDS);
+}
+
+/**
+ * Token permit() call that redeems an EIP-2612 signature (run ahead of the mint)
+ */
+export function buildPermitCall(permit: SignedPermit): { to: Address; data: Hex; value: bigint } {
+  const { v, r, s, yParity } = parseSignature(permit.signature);
+  return {
+    to: permit.token,
+    data: encodeFunctionData({
+      abi: ERC20_PERMIT_ABI,
+      functionName: "permit",
+      args: [permit.owner, permit.spender, permit.amount, permit.deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+    }),
+    value: BigInt(0),
+  };
+}
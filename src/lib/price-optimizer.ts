@@ -1,7 +1,9 @@
-import type { PublicClient } from "viem";
-import type { NFTContractInfo, MintParams } from "~/lib/types";
-import { getProviderConfig } from "~/lib/provider-configs";
-import { THIRDWEB_OPENEDITONERC721_ABI, THIRDWEB_NATIVE_TOKEN, MANIFOLD_ERC721_EXTENSION_ABI, MANIFOLD_ERC1155_EXTENSION_ABI } from "~/lib/nft-standards";
+import type { Address, PublicClient } from "viem";
+import type { NFTContractInfo, MintParams, MintPriceData } from "~/lib/types";
+import { getMintAccount, getProviderConfig } from "~/lib/provider-configs";
+import { getMintAdapter } from "~/lib/provider-registry";
+import { traceLog } from "~/lib/mint-trace";
+import { THIRDWEB_OPENEDITONERC721_ABI, THIRDWEB_ERC1155_EXTENSION_ABI, THIRDWEB_DROP1155_CLAIM_ABI, THIRDWEB_NATIVE_TOKEN, MANIFOLD_ERC721_EXTENSION_ABI, MANIFOLD_ERC1155_EXTENSION_ABI, ZORA_1155_ABI, ZORA_FIXED_PRICE_STRATEGY_ABI, ZORA_PERMISSION_BIT_MINTER, SEADROP_ABI, KNOWN_CONTRACTS } from "~/lib/nft-standards";
 
 /**
  * Helper function to try Manifold contract calls with ABI fallback
@@ -18,7 +20,7 @@ async function callManifoldWithFallback(
   const fallbackABI = contractInfo.isERC721 ? MANIFOLD_ERC1155_EXTENSION_ABI : MANIFOLD_ERC721_EXTENSION_ABI;
   
   const contractType = contractInfo.isERC721 ? "ERC721" : (contractInfo.isERC1155 ? "ERC1155" : "Unknown");
-  console.log(`[Manifold Fallback] Attempting ${functionName} with ${contractType} ABI first`);
+  traceLog(`[Manifold Fallback] Attempting ${functionName} with ${contractType} ABI first`);
   
   try {
     const result = await client.readContract({
@@ -27,10 +29,10 @@ async function callManifoldWithFallback(
       functionName: functionName as any,
       args: args as any
     });
-    console.log(`[Manifold Fallback] ✅ Success with ${contractType} ABI`);
+    traceLog(`[Manifold Fallback] ✅ Success with ${contractType} ABI`);
     return result;
   } catch (primaryError) {
-    console.log(`[Manifold Fallback] ❌ Failed with ${contractType} ABI, trying fallback:`, (primaryError as Error).message);
+    traceLog(`[Manifold Fallback] ❌ Failed with ${contractType} ABI, trying fallback:`, (primaryError as Error).message);
     
     try {
       const fallbackType = contractInfo.isERC721 ? "ERC1155" : "ERC721";
@@ -40,15 +42,160 @@ async function callManifoldWithFallback(
         functionName: functionName as any,
         args: args as any
       });
-      console.log(`[Manifold Fallback] ✅ Success with fallback ${fallbackType} ABI`);
+      traceLog(`[Manifold Fallback] ✅ Success with fallback ${fallbackType} ABI`);
       return result;
     } catch (fallbackError) {
-      console.log(`[Manifold Fallback] ❌ Both ABIs failed:`, (fallbackError as Error).message);
+      traceLog(`[Manifold Fallback] ❌ Both ABIs failed:`, (fallbackError as Error).message);
       throw fallbackError;
     }
   }
 }
 
+/**
+ * Find the first known Zora minter that holds the minter permission for the token
+ * (either on the token itself or contract-wide on token 0)
+ */
+async function findZoraMinter(
+  client: PublicClient,
+  contractAddress: Address,
+  tokenId: bigint,
+  candidates: Address[]
+): Promise<Address | null> {
+  for (const minter of candidates) {
+    const [tokenPermissions, contractPermissions] = await Promise.all([
+      client.readContract({
+        address: contractAddress,
+        abi: ZORA_1155_ABI,
+        functionName: "getPermissions",
+        args: [tokenId, minter]
+      }).catch(() => BigInt(0)),
+      client.readContract({
+        address: contractAddress,
+        abi: ZORA_1155_ABI,
+        functionName: "getPermissions",
+        args: [BigInt(0), minter]
+      }).catch(() => BigInt(0))
+    ]);
+
+    if (((tokenPermissions | contractPermissions) & ZORA_PERMISSION_BIT_MINTER) !== BigInt(0)) {
+      return minter;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the claim condition ID for a thirdweb ERC1155 token: the active condition,
+ * or the first configured one when no phase is active yet
+ */
+async function resolveThirdwebERC1155ConditionId(
+  client: PublicClient,
+  contractAddress: Address,
+  tokenId: bigint
+): Promise<bigint> {
+  try {
+    return await client.readContract({
+      address: contractAddress,
+      abi: THIRDWEB_ERC1155_EXTENSION_ABI,
+      functionName: "getActiveClaimConditionId",
+      args: [tokenId]
+    });
+  } catch (error) {
+    // getActiveClaimConditionId reverts when no phase is active
+    const [currentStartId, count] = await client.readContract({
+      address: contractAddress,
+      abi: THIRDWEB_DROP1155_CLAIM_ABI,
+      functionName: "claimCondition",
+      args: [tokenId]
+    });
+    
+    if (count === BigInt(0)) {
+      throw new Error(`No claim conditions set for token ${tokenId}`);
+    }
+    return currentStartId;
+  }
+}
+
+/**
+ * Build thirdweb price data for a claim condition, fetching ERC20 details when the
+ * currency is not the native token
+ */
+async function buildThirdwebPriceData(
+  client: PublicClient,
+  params: MintParams,
+  pricePerToken: bigint,
+  currency: Address
+): Promise<MintPriceData> {
+  if (!currency || currency.toLowerCase() === THIRDWEB_NATIVE_TOKEN.toLowerCase()) {
+    // ETH payment
+    return {
+      mintPrice: pricePerToken,
+      unitPrice: pricePerToken,
+      totalCost: pricePerToken * BigInt(params.amount || 1)
+    };
+  }
+  
+  // ERC20 payment; allowance and balance belong to the paying wallet, not a gift recipient
+  const account = getMintAccount(params);
+  const [symbol, decimals, allowance, balance] = await Promise.all([
+    client.readContract({
+      address: currency,
+      abi: [{ name: "symbol", type: "function", inputs: [], outputs: [{ type: "string" }], stateMutability: "view" }],
+      functionName: "symbol"
+    }),
+    client.readContract({
+      address: currency,
+      abi: [{ name: "decimals", type: "function", inputs: [], outputs: [{ type: "uint8" }], stateMutability: "view" }],
+      functionName: "decimals"
+    }),
+    account ? client.readContract({
+      address: currency,
+      abi: [{ 
+        name: "allowance", 
+        type: "function", 
+        inputs: [{ name: "owner", type: "address" }, { name: "spender", type: "address" }], 
+        outputs: [{ type: "uint256" }], 
+        stateMutability: "view" 
+      }],
+      functionName: "allowance",
+      args: [account, params.contractAddress]
+    }).catch(() => BigInt(0)) : Promise.resolve(undefined),
+    account ? client.readContract({
+      address: currency,
+      abi: [{ 
+        name: "balanceOf", 
+        type: "function", 
+        inputs: [{ name: "owner", type: "address" }], 
+        outputs: [{ type: "uint256" }], 
+        stateMutability: "view" 
+      }],
+      functionName: "balanceOf",
+      args: [account]
+    }).catch(() => BigInt(0)) : Promise.resolve(undefined)
+  ]);
+  
+  // Validate decimals
+  const validatedDecimals = Number(decimals);
+  if (isNaN(validatedDecimals) || validatedDecimals < 0 || validatedDecimals > 255) {
+    console.error(`Invalid ERC20 decimals for ${currency}:`, decimals);
+    throw new Error(`Invalid ERC20 decimals: ${decimals}`);
+  }
+  
+  return {
+    mintPrice: pricePerToken,
+    unitPrice: pricePerToken,
+    erc20Details: {
+      address: currency,
+      symbol: symbol as string,
+      decimals: validatedDecimals,
+      allowance: allowance as bigint,
+      balance: balance as bigint | undefined
+    },
+    totalCost: BigInt(0) // No ETH needed for ERC20 payment
+  };
+}
+
 /**
  * Optimized price discovery that batches RPC calls where possible
  */
@@ -56,23 +203,20 @@ export async function fetchPriceData(
   client: PublicClient,
   params: MintParams,
   contractInfo: NFTContractInfo
-): Promise<{
-  mintPrice?: bigint;
-  erc20Details?: {
-    address: string;
-    symbol: string;
-    decimals: number;
-    allowance?: bigint;
-    balance?: bigint;
-  };
-  totalCost: bigint;
-  claim?: NFTContractInfo["claim"];
-}> {
+): Promise<MintPriceData> {
+  // Registered adapters price their own contracts
+  const adapter = getMintAdapter(contractInfo.provider);
+  if (adapter) {
+    return adapter.fetchPrice(client, params, contractInfo);
+  }
+  
   const config = getProviderConfig(contractInfo.provider, contractInfo);
+  // The paying wallet, which holds the ERC20 allowance and balance
+  const account = getMintAccount(params);
   
   if (contractInfo.provider === "manifold" && contractInfo.extensionAddress) {
     // For Manifold, we need extension fee + claim cost
-    console.log(`[Manifold Price] Processing contract type: ERC721=${contractInfo.isERC721}, ERC1155=${contractInfo.isERC1155}`);
+    traceLog(`[Manifold Price] Processing contract type: ERC721=${contractInfo.isERC721}, ERC1155=${contractInfo.isERC1155}`);
     
     try {
       // First get MINT_FEE - this is consistent across both contract versions
@@ -88,7 +232,7 @@ export async function fetchPriceData(
       let claimPromise: Promise<any> | null = null;
       
       if (params.instanceId) {
-        console.log(`[Manifold Price] Fetching claim data for instanceId: ${params.instanceId}`);
+        traceLog(`[Manifold Price] Fetching claim data for instanceId: ${params.instanceId}`);
         claimPromise = callManifoldWithFallback(
           client,
           contractInfo.extensionAddress,
@@ -97,7 +241,7 @@ export async function fetchPriceData(
           contractInfo
         );
       } else if (params.tokenId) {
-        console.log(`[Manifold Price] Fetching claim data for tokenId: ${params.tokenId}`);
+        traceLog(`[Manifold Price] Fetching claim data for tokenId: ${params.tokenId}`);
         claimPromise = callManifoldWithFallback(
           client,
           contractInfo.extensionAddress,
@@ -108,7 +252,7 @@ export async function fetchPriceData(
       }
       
       // Execute both promises
-      const [mintFee, claimData] = await Promise.all([
+      let [mintFee, claimData] = await Promise.all([
         mintFeePromise.catch(err => {
           console.error("[Manifold Price] MINT_FEE call failed:", err);
           return null;
@@ -123,7 +267,7 @@ export async function fetchPriceData(
       
       // Handle getClaimForToken response format [instanceId, claim]
       if (claim && Array.isArray(claim) && claim.length === 2 && params.tokenId) {
-        console.log("Got getClaimForToken response, extracting claim data");
+        traceLog("Got getClaimForToken response, extracting claim data");
         const [extractedInstanceId, claimData] = claim;
         claim = claimData;
         // Update params with the extracted instanceId for consistency
@@ -169,6 +313,21 @@ export async function fetchPriceData(
       let totalCost = mintFee || BigInt(0);
       let erc20Details = undefined;
       
+      // Merkle (allowlist) claims charge MINT_FEE_MERKLE instead of MINT_FEE
+      if (claim && claim.merkleRoot && claim.merkleRoot !== "0x0000000000000000000000000000000000000000000000000000000000000000") {
+        const merkleFee = await callManifoldWithFallback(
+          client,
+          contractInfo.extensionAddress,
+          "MINT_FEE_MERKLE",
+          [],
+          contractInfo
+        ).catch(() => null);
+        if (merkleFee !== null) {
+          mintFee = merkleFee;
+          totalCost = merkleFee;
+        }
+      }
+      
       if (claim) {
         // Store claim data in contractInfo for later use
         contractInfo.claim = {
@@ -177,7 +336,9 @@ export async function fetchPriceData(
           erc20: claim.erc20,
           startDate: claim.startDate,
           endDate: claim.endDate,
-          walletMax: claim.walletMax
+          walletMax: claim.walletMax,
+          total: claim.total,
+          totalMax: claim.totalMax
         };
         
         // Check if ERC20 payment
@@ -194,7 +355,7 @@ export async function fetchPriceData(
               abi: [{ name: "decimals", type: "function", inputs: [], outputs: [{ type: "uint8" }], stateMutability: "view" }],
               functionName: "decimals"
             }),
-            params.recipient ? client.readContract({
+            account ? client.readContract({
               address: claim.erc20,
               abi: [{ 
                 name: "allowance", 
@@ -204,9 +365,9 @@ export async function fetchPriceData(
                 stateMutability: "view" 
               }],
               functionName: "allowance",
-              args: [params.recipient, contractInfo.extensionAddress || params.contractAddress]
-            }).catch(() => BigInt(0)) : Promise.resolve(undefined), // Return undefined when no recipient, not 0
-            params.recipient ? client.readContract({
+              args: [account, contractInfo.extensionAddress || params.contractAddress]
+            }).catch(() => BigInt(0)) : Promise.resolve(undefined), // Return undefined when no account, not 0
+            account ? client.readContract({
               address: claim.erc20,
               abi: [{ 
                 name: "balanceOf", 
@@ -216,7 +377,7 @@ export async function fetchPriceData(
                 stateMutability: "view" 
               }],
               functionName: "balanceOf",
-              args: [params.recipient]
+              args: [account]
             }).catch(() => BigInt(0)) : Promise.resolve(undefined)
           ]);
           
@@ -243,10 +404,12 @@ export async function fetchPriceData(
         }
       }
       
+      // totalCost so far covers a single claim; mintBatch charges it per token
       return {
         mintPrice: mintFee || BigInt(0),
+        unitPrice: totalCost,
         erc20Details,
-        totalCost,
+        totalCost: totalCost * BigInt(params.amount || 1),
         claim: claim ? contractInfo.claim : undefined
       };
     } catch (err) {
@@ -254,7 +417,7 @@ export async function fetchPriceData(
       
       // Fallback: Try to get just the mint fee without claim data
       try {
-        console.log("[Manifold Price] Attempting fallback to retrieve MINT_FEE only");
+        traceLog("[Manifold Price] Attempting fallback to retrieve MINT_FEE only");
         const mintFee = await callManifoldWithFallback(
           client,
           contractInfo.extensionAddress,
@@ -263,19 +426,129 @@ export async function fetchPriceData(
           contractInfo
         );
         
-        console.log("[Manifold Price] ✅ Fallback: Retrieved mint fee only:", mintFee);
+        traceLog("[Manifold Price] ✅ Fallback: Retrieved mint fee only:", mintFee);
         return {
           mintPrice: mintFee as bigint,
           totalCost: mintFee as bigint
         };
       } catch (fallbackErr) {
         console.error("[Manifold Price] ❌ All fallback attempts failed:", fallbackErr);
-        console.log("[Manifold Price] Using default Manifold fee of 0.0005 ETH");
+        traceLog("[Manifold Price] Using default Manifold fee of 0.0005 ETH");
         return { 
           totalCost: BigInt("500000000000000") // Default 0.0005 ETH Manifold fee
         };
       }
     }
+  } else if (contractInfo.provider === "opensea" && contractInfo.extensionAddress) {
+    // SeaDrop: price, window and wallet limit come from the public drop on the SeaDrop contract
+    const seaDrop = contractInfo.extensionAddress;
+
+    try {
+      const [publicDrop, allowedFeeRecipients] = await Promise.all([
+        client.readContract({
+          address: seaDrop,
+          abi: SEADROP_ABI,
+          functionName: "getPublicDrop",
+          args: [params.contractAddress]
+        }),
+        client.readContract({
+          address: seaDrop,
+          abi: SEADROP_ABI,
+          functionName: "getAllowedFeeRecipients",
+          args: [params.contractAddress]
+        }).catch(() => [] as readonly Address[])
+      ]);
+
+      // Prefer the OpenSea fee recipient; restricted drops only accept allowed recipients
+      const openSeaAllowed = allowedFeeRecipients.some(
+        (recipient) => recipient.toLowerCase() === KNOWN_CONTRACTS.openSeaFeeRecipient.toLowerCase()
+      );
+      const feeRecipient = publicDrop.restrictFeeRecipients && !openSeaAllowed && allowedFeeRecipients.length > 0
+        ? allowedFeeRecipients[0]
+        : KNOWN_CONTRACTS.openSeaFeeRecipient;
+
+      // Store public drop in contractInfo for later use
+      contractInfo.publicDrop = {
+        mintPrice: publicDrop.mintPrice,
+        startTime: Number(publicDrop.startTime),
+        endTime: Number(publicDrop.endTime),
+        maxTotalMintableByWallet: Number(publicDrop.maxTotalMintableByWallet),
+        feeBps: Number(publicDrop.feeBps),
+        restrictFeeRecipients: publicDrop.restrictFeeRecipients,
+        feeRecipient
+      };
+
+      return {
+        mintPrice: publicDrop.mintPrice,
+        unitPrice: publicDrop.mintPrice,
+        totalCost: config.mintConfig.calculateValue(publicDrop.mintPrice, params)
+      };
+    } catch (err) {
+      console.error("[SeaDrop Price] Failed to read public drop:", err);
+      return { totalCost: BigInt(0) };
+    }
+  } else if (contractInfo.provider === "zora") {
+    // Zora 1155: price comes from the fixed price sale strategy, plus the protocol mint fee per token
+    const amount = BigInt(params.amount || 1);
+    const tokenId = BigInt(params.tokenId || "1");
+
+    const [mintFee, minter] = await Promise.all([
+      client.readContract({
+        address: params.contractAddress,
+        abi: ZORA_1155_ABI,
+        functionName: "mintFee"
+      }).catch(err => {
+        console.error("[Zora Price] mintFee call failed:", err);
+        return BigInt(0);
+      }),
+      findZoraMinter(client, params.contractAddress, tokenId, config.extensionAddresses || [])
+    ]);
+
+    if (!minter) {
+      // validateParameters rejects the mint rather than sending one that reverts
+      console.warn(`[Zora Price] No approved fixed price minter found for token ${tokenId}`);
+      contractInfo.zoraSale = null;
+      return {
+        mintPrice: BigInt(0),
+        unitPrice: mintFee,
+        totalCost: mintFee * amount
+      };
+    }
+
+    try {
+      const sale = await client.readContract({
+        address: minter,
+        abi: ZORA_FIXED_PRICE_STRATEGY_ABI,
+        functionName: "sale",
+        args: [params.contractAddress, tokenId]
+      });
+
+      // Store sale config in contractInfo for later use
+      contractInfo.zoraSale = {
+        minter,
+        pricePerToken: sale.pricePerToken,
+        mintFee,
+        saleStart: Number(sale.saleStart),
+        saleEnd: Number(sale.saleEnd),
+        maxTokensPerAddress: Number(sale.maxTokensPerAddress),
+        fundsRecipient: sale.fundsRecipient
+      };
+
+      // zora calculateValue adds the mint fee on top of the sale price
+      return {
+        mintPrice: sale.pricePerToken,
+        unitPrice: sale.pricePerToken,
+        totalCost: (sale.pricePerToken + mintFee) * amount
+      };
+    } catch (err) {
+      console.error("[Zora Price] Failed to read sale config:", err);
+      contractInfo.zoraSale = null;
+      return {
+        mintPrice: BigInt(0),
+        unitPrice: mintFee,
+        totalCost: mintFee * amount
+      };
+    }
   } else if (contractInfo.provider === "nfts2me") {
     // Special handling for nfts2me - try different pricing patterns
     
@@ -302,12 +575,13 @@ export async function fetchPriceData(
         // Handle free mints (mintPrice = 0)
         return {
           mintPrice: pricePerNFT,
+          unitPrice: pricePerNFT,
           totalCost: totalCost
         };
       }
     } catch (err) {
       // mintPrice() doesn't exist, try next pattern
-      console.log("mintPrice() not found, trying mintFee pattern");
+      traceLog("mintPrice() not found, trying mintFee pattern");
     }
     
     // Pattern 2: Try mintFee(amount) + protocolFee() - for more complex pricing
@@ -344,9 +618,13 @@ export async function fetchPriceData(
       
       if (mintFee !== undefined && protocolFee !== undefined) {
         // Total cost = creator revenue (mintFee) + platform fee (protocolFee * amount)
-        const totalCost = (mintFee as bigint) + ((protocolFee as bigint) * BigInt(params.amount || 1));
+        const amount = BigInt(params.amount || 1);
+        const totalCost = (mintFee as bigint) + ((protocolFee as bigint) * amount);
         return {
           mintPrice: mintFee as bigint,
+          // mintFee(amount) scales linearly, so the per-NFT price is creator fee + protocol fee
+          unitPrice: (mintFee as bigint) / amount + (protocolFee as bigint),
+          protocolFee: protocolFee as bigint,
           totalCost: totalCost
         };
       }
@@ -360,128 +638,44 @@ export async function fetchPriceData(
     const protocolFeePerNFT = BigInt("100000000000000"); // 0.0001 ETH protocol fee per NFT
     return { 
       mintPrice: creatorFeePerNFT * amount,
+      unitPrice: creatorFeePerNFT + protocolFeePerNFT,
+      protocolFee: protocolFeePerNFT,
       totalCost: (creatorFeePerNFT + protocolFeePerNFT) * amount
     };
   } else if (contractInfo.provider === "thirdweb") {
-    // Check if it's an Extension contract first (ERC1155 with signature minting)
+    // ERC1155 Edition Drops: resolve the live claim condition for the requested token
     if (contractInfo.isERC1155) {
-      console.log(`[Price Optimizer] Thirdweb ERC1155 Extension detected, trying Extension pricing...`);
+      const tokenId = BigInt(params.tokenId || "0");
+      traceLog(`[Price Optimizer] Thirdweb ERC1155 detected, resolving claim condition for token ${tokenId}...`);
       
-      // Pattern 1: Try to get price from common Extension functions
       try {
-        // Many Extensions have a public price function
-        const price = await client.readContract({
-          address: params.contractAddress,
-          abi: [
-            {
-              inputs: [],
-              name: "price",
-              outputs: [{ name: "", type: "uint256" }],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "price",
-        });
+        const conditionId = await resolveThirdwebERC1155ConditionId(client, params.contractAddress, tokenId);
         
-        if (price && typeof price === 'bigint') {
-          console.log(`[Price Optimizer] ✅ Found Extension price function: ${price}`);
-          return {
-            mintPrice: price * BigInt(params.amount || 1),
-            totalCost: price * BigInt(params.amount || 1),
-          };
-        }
-      } catch (error) {
-        console.log(`[Price Optimizer] Extension price() function not found: ${error}`);
-      }
-      
-      // Pattern 2: Try mintPrice function
-      try {
-        const mintPrice = await client.readContract({
+        const condition = await client.readContract({
           address: params.contractAddress,
-          abi: [
-            {
-              inputs: [],
-              name: "mintPrice",
-              outputs: [{ name: "", type: "uint256" }],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "mintPrice",
+          abi: THIRDWEB_ERC1155_EXTENSION_ABI,
+          functionName: "getClaimConditionById",
+          args: [tokenId, conditionId]
         });
         
-        if (mintPrice && typeof mintPrice === 'bigint') {
-          console.log(`[Price Optimizer] ✅ Found Extension mintPrice function: ${mintPrice}`);
-          return {
-            mintPrice: mintPrice * BigInt(params.amount || 1),
-            totalCost: mintPrice * BigInt(params.amount || 1),
-          };
-        }
-      } catch (error) {
-        console.log(`[Price Optimizer] Extension mintPrice() function not found: ${error}`);
-      }
-      
-      // Pattern 3: Try to get price from claimCondition mapping (for ERC1155 Extensions)
-      try {
-        const claimCondition = await client.readContract({
-          address: params.contractAddress,
-          abi: [
-            {
-              inputs: [{ name: "tokenId", type: "uint256" }],
-              name: "claimCondition",
-              outputs: [
-                { name: "startTimestamp", type: "uint256" },
-                { name: "maxClaimableSupply", type: "uint256" },
-                { name: "supplyClaimed", type: "uint256" },
-                { name: "merkleRoot", type: "bytes32" },
-                { name: "pricePerToken", type: "uint256" },
-                { name: "currency", type: "address" },
-                { name: "metadata", type: "string" },
-              ],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "claimCondition",
-          args: [0n], // Try with tokenId 0 (from successful transaction)
-        });
+        // Store claim condition in contractInfo for later use
+        contractInfo.claimCondition = {
+          id: Number(conditionId),
+          pricePerToken: condition.pricePerToken,
+          currency: condition.currency,
+          maxClaimableSupply: condition.maxClaimableSupply,
+          supplyClaimed: condition.supplyClaimed,
+          merkleRoot: condition.merkleRoot,
+          startTimestamp: Number(condition.startTimestamp),
+          quantityLimitPerWallet: condition.quantityLimitPerWallet
+        };
         
-        if (claimCondition && Array.isArray(claimCondition) && claimCondition.length >= 5) {
-          const pricePerToken = claimCondition[4]; // Index 4 is pricePerToken
-          if (typeof pricePerToken === 'bigint' && pricePerToken > 0n) {
-            console.log(`[Price Optimizer] ✅ Found Extension claimCondition price: ${pricePerToken}`);
-            return {
-              mintPrice: pricePerToken * BigInt(params.amount || 1),
-              totalCost: pricePerToken * BigInt(params.amount || 1),
-            };
-          }
-        }
+        traceLog(`[Price Optimizer] ✅ Claim condition ${conditionId}: price=${condition.pricePerToken}, currency=${condition.currency}, limit=${condition.quantityLimitPerWallet}`);
+        return buildThirdwebPriceData(client, params, condition.pricePerToken, condition.currency);
       } catch (error) {
-        console.log(`[Price Optimizer] Extension claimCondition check failed: ${error}`);
+        // Never price an unknown claim condition as a free mint; detection surfaces the error
+        throw new Error(`Failed to read the thirdweb claim condition for token ${tokenId}`, { cause: error });
       }
-      
-      // Pattern 4: Hardcoded fallback for known contracts (temporary solution)
-      if (params.contractAddress.toLowerCase() === "0xcd0bafa3bba1b32869343fb69d2778daf4412181") {
-        console.group("💰 [Price Optimizer] Using hardcoded price for known Extension");
-        console.log("Contract address:", params.contractAddress);
-        console.log("Amount:", params.amount);
-        // 1 XDAI = 1e18 wei
-        const oneXDAI = BigInt("1000000000000000000");
-        const mintPrice = oneXDAI * BigInt(params.amount || 1);
-        const totalCost = oneXDAI * BigInt(params.amount || 1);
-        console.log("Unit price (XDAI):", "1");
-        console.log("Total mint price:", mintPrice.toString(), "wei");
-        console.log("Total cost:", totalCost.toString(), "wei");
-        console.groupEnd();
-        return {
-          mintPrice,
-          totalCost,
-        };
-      }
-      
-      console.log(`[Price Optimizer] ⚠️ Could not determine Extension price, defaulting to free`);
-      return { mintPrice: BigInt(0), totalCost: BigInt(0) };
     }
     
     // Original Drop contract logic for ERC721
@@ -536,77 +730,13 @@ export async function fetchPriceData(
         pricePerToken: pricePerToken as bigint,
         currency: currency as `0x${string}`,
         maxClaimableSupply: maxClaimableSupply as bigint,
+        supplyClaimed: supplyClaimed as bigint,
         merkleRoot: merkleRoot as `0x${string}`,
         startTimestamp: Number(startTimestamp),
         quantityLimitPerWallet: quantityLimitPerWallet as bigint
       };
       
-      // Check if it's ERC20 payment
-      if (currency && currency.toLowerCase() !== THIRDWEB_NATIVE_TOKEN.toLowerCase()) {
-        // ERC20 payment
-        const [symbol, decimals, allowance, balance] = await Promise.all([
-          client.readContract({
-            address: currency,
-            abi: [{ name: "symbol", type: "function", inputs: [], outputs: [{ type: "string" }], stateMutability: "view" }],
-            functionName: "symbol"
-          }),
-          client.readContract({
-            address: currency,
-            abi: [{ name: "decimals", type: "function", inputs: [], outputs: [{ type: "uint8" }], stateMutability: "view" }],
-            functionName: "decimals"
-          }),
-          params.recipient ? client.readContract({
-            address: currency,
-            abi: [{ 
-              name: "allowance", 
-              type: "function", 
-              inputs: [{ name: "owner", type: "address" }, { name: "spender", type: "address" }], 
-              outputs: [{ type: "uint256" }], 
-              stateMutability: "view" 
-            }],
-            functionName: "allowance",
-            args: [params.recipient, params.contractAddress]
-          }).catch(() => BigInt(0)) : Promise.resolve(undefined),
-          params.recipient ? client.readContract({
-            address: currency,
-            abi: [{ 
-              name: "balanceOf", 
-              type: "function", 
-              inputs: [{ name: "owner", type: "address" }], 
-              outputs: [{ type: "uint256" }], 
-              stateMutability: "view" 
-            }],
-            functionName: "balanceOf",
-            args: [params.recipient]
-          }).catch(() => BigInt(0)) : Promise.resolve(undefined)
-        ]);
-        
-        // Validate decimals
-        const validatedDecimals = Number(decimals);
-        if (isNaN(validatedDecimals) || validatedDecimals < 0 || validatedDecimals > 255) {
-          console.error(`Invalid ERC20 decimals for ${currency}:`, decimals);
-          throw new Error(`Invalid ERC20 decimals: ${decimals}`);
-        }
-        
-        return {
-          mintPrice: pricePerToken as bigint,
-          erc20Details: {
-            address: currency,
-            symbol: symbol as string,
-            decimals: validatedDecimals,
-            allowance: allowance as bigint,
-            balance: balance as bigint | undefined
-          },
-          totalCost: BigInt(0) // No ETH needed for ERC20 payment
-        };
-      } else {
-        // ETH payment
-        const totalCost = (pricePerToken as bigint) * BigInt(params.amount || 1);
-        return {
-          mintPrice: pricePerToken as bigint,
-          totalCost
-        };
-      }
+      return buildThirdwebPriceData(client, params, pricePerToken as bigint, currency as Address);
     } catch (err) {
       console.error("Failed to fetch thirdweb price data:", err);
       return { totalCost: BigInt(0) };
@@ -634,6 +764,7 @@ export async function fetchPriceData(
           const totalCost = config.mintConfig.calculateValue(price as bigint, params);
           return {
             mintPrice: price as bigint,
+            unitPrice: price as bigint,
             totalCost
           };
         }
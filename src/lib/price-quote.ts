@@ -0,0 +1,133 @@
+import { formatUnits, type Address } from "viem";
+
+const QUOTE_TTL_MS = 60 * 1000;
+
+/**
+ * Asset to quote: the chain's native currency, or an ERC20 when token is set
+ */
+export type PriceQuoteRequest = {
+  chainId: number;
+  token?: Address;
+};
+
+/**
+ * Resolves the USD price of one whole unit of an asset.
+ * Returns null when the source has no price for it (e.g. testnets).
+ */
+export type PriceSource = (request: PriceQuoteRequest) => Promise<number | null>;
+
+/**
+ * Cache key for a quote; also the key format for static price fixtures
+ */
+export function getPriceQuoteKey({ chainId, token }: PriceQuoteRequest): string {
+  return `${chainId}:${token ? token.toLowerCase() : "native"}`;
+}
+
+/**
+ * Price source backed by fixed prices, for tests and local development
+ *
+ * @example
+ * createStaticPriceSource({ "8453:native": 3000, "8453:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913": 1 })
+ */
+export function createStaticPriceSource(prices: Record<string, number>): PriceSource {
+  return async (request) => prices[getPriceQuoteKey(request)] ?? null;
+}
+
+// CoinGecko coin ids for each chain's native currency (testnets are left unpriced)
+const COINGECKO_NATIVE_IDS: Record<number, string> = {
+  1: "ethereum",
+  8453: "ethereum",
+  42161: "ethereum",
+  10: "ethereum",
+  7777777: "ethereum",
+  130: "ethereum",
+  137: "polygon-ecosystem-token",
+  100: "xdai",
+  42220: "celo",
+  666666666: "degen-base",
+};
+
+// CoinGecko asset platforms for ERC20 token prices
+const COINGECKO_PLATFORMS: Record<number, string> = {
+  1: "ethereum",
+  8453: "base",
+  42161: "arbitrum-one",
+  10: "optimistic-ethereum",
+  137: "polygon-pos",
+  100: "xdai",
+  42220: "celo",
+  7777777: "zora-network",
+};
+
+/**
+ * Price source backed by the public CoinGecko simple price API
+ */
+export function createCoinGeckoPriceSource(
+  baseUrl = "https://api.coingecko.com/api/v3",
+): PriceSource {
+  return async ({ chainId, token }) => {
+    if (token) {
+      const platform = COINGECKO_PLATFORMS[chainId];
+      if (!platform) return null;
+
+      const address = token.toLowerCase();
+      const res = await fetch(
+        `${baseUrl}/simple/token_price/${platform}?contract_addresses=${address}&vs_currencies=usd`,
+      );
+      if (!res.ok) throw new Error(`Token price lookup failed with status ${res.status}`);
+      const data = await res.json();
+      return data[address]?.usd ?? null;
+    }
+
+    const id = COINGECKO_NATIVE_IDS[chainId];
+    if (!id) return null;
+
+    const res = await fetch(`${baseUrl}/simple/price?ids=${id}&vs_currencies=usd`);
+    if (!res.ok) throw new Error(`Native price lookup failed with status ${res.status}`);
+    const data = await res.json();
+    return data[id]?.usd ?? null;
+  };
+}
+
+export const defaultPriceSource = createCoinGeckoPriceSource();
+
+type CachedQuote = { price: Promise<number | null>; expiresAt: number };
+
+const quoteCache = new WeakMap<PriceSource, Map<string, CachedQuote>>();
+
+/**
+ * USD price for an asset, cached per source for a minute (failed lookups are not cached)
+ */
+export function getUsdPrice(
+  request: PriceQuoteRequest,
+  source: PriceSource = defaultPriceSource,
+): Promise<number | null> {
+  const cache = quoteCache.get(source) ?? new Map<string, CachedQuote>();
+  quoteCache.set(source, cache);
+
+  const key = getPriceQuoteKey(request);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.price;
+
+  const price = source(request);
+  cache.set(key, { price, expiresAt: Date.now() + QUOTE_TTL_MS });
+  price.catch(() => {
+    if (cache.get(key)?.price === price) cache.delete(key);
+  });
+  return price;
+}
+
+/**
+ * Convert a raw amount (wei or token units) to USD
+ */
+export function toUsd(amount: bigint, decimals: number, usdPrice: number): number {
+  return Number(formatUnits(amount, decimals)) * usdPrice;
+}
+
+/**
+ * Format a USD value as "$1,234.56", or "<$0.01" for dust
+ */
+export function formatUsd(value: number): string {
+  if (value > 0 && value < 0.01) return "<$0.01";
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
@@ -1,6 +1,28 @@
-import { type Address, maxUint256 } from "viem";
-import type { ProviderConfig } from "~/lib/types";
-import { MANIFOLD_EXTENSION_ABI, MANIFOLD_ERC721_EXTENSION_ABI, MANIFOLD_ERC1155_EXTENSION_ABI, KNOWN_CONTRACTS, PRICE_DISCOVERY_ABI, MINT_ABI, THIRDWEB_OPENEDITONERC721_ABI, THIRDWEB_ERC1155_EXTENSION_ABI, THIRDWEB_NATIVE_TOKEN } from "~/lib/nft-standards";
+import { type Address, encodeAbiParameters, maxUint256, zeroAddress } from "viem";
+import type { MintCall, MintParams, MintPriceData, NFTContractInfo, ProviderConfig, SignedPermit } from "~/lib/types";
+import { getMintAdapter } from "~/lib/provider-registry";
+import { traceLog } from "~/lib/mint-trace";
+import { requiresMerkleProof } from "~/lib/allowlist";
+import { MANIFOLD_EXTENSION_ABI, MANIFOLD_ERC721_EXTENSION_ABI, MANIFOLD_ERC1155_EXTENSION_ABI, KNOWN_CONTRACTS, PRICE_DISCOVERY_ABI, MINT_ABI, THIRDWEB_OPENEDITONERC721_ABI, THIRDWEB_ERC1155_EXTENSION_ABI, THIRDWEB_NATIVE_TOKEN, ZORA_1155_ABI, SEADROP_ABI } from "~/lib/nft-standards";
+
+/**
+ * Build the thirdweb _allowlistProof tuple; limits not set by the allowlist entry
+ * fall back to the claim condition (max uint256 / zero address)
+ */
+function buildThirdwebAllowlistProof(params: MintParams) {
+  const entry = params.allowlistEntry;
+  return {
+    proof: params.merkleProof || [],
+    quantityLimitPerWallet: entry?.quantityLimitPerWallet ?? maxUint256,
+    pricePerToken: entry?.pricePerToken ?? maxUint256,
+    currency: entry?.currency || "0x0000000000000000000000000000000000000000"
+  };
+}
+
+/**
+ * Mint referral used for Zora mintWithRewards when none is passed in MintParams
+ */
+const DEFAULT_ZORA_MINT_REFERRAL = (process.env.NEXT_PUBLIC_ZORA_MINT_REFERRAL || zeroAddress) as Address;
 
 export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
   manifold: {
@@ -19,15 +41,12 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
       buildArgs: (params) => [
         params.contractAddress,
         BigInt(params.instanceId || "0"),
-        Number(params.tokenId || "0"),
+        params.allowlistEntry?.mintIndex ?? Number(params.tokenId || "0"),
         params.merkleProof || [],
         params.recipient
       ],
-      calculateValue: (mintFee, params) => {
-        // For Manifold, value is just the mint fee
-        // The actual NFT cost might be in ERC20
-        return mintFee;
-      }
+      // Price is the mint fee plus the claim cost when paid in ETH (ERC20 cost is pulled separately)
+      calculateValue: (price, params) => price * BigInt(params.amount || 1)
     },
     requiredParams: ["contractAddress", "chainId"],
     supportsERC20: true
@@ -35,14 +54,23 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
   
   opensea: {
     name: "opensea",
+    extensionAddresses: [
+      KNOWN_CONTRACTS.seaDrop, // SeaDrop
+      KNOWN_CONTRACTS.seaDrop15, // SeaDrop 1.5
+    ],
     priceDiscovery: {
-      abis: [PRICE_DISCOVERY_ABI],
-      functionNames: ["mintPrice", "price", "publicMintPrice"]
+      abis: [SEADROP_ABI],
+      functionNames: ["getPublicDrop"]
     },
     mintConfig: {
-      abi: MINT_ABI,
-      functionName: "mint",
-      buildArgs: (params) => [BigInt(params.amount || 1)],
+      abi: SEADROP_ABI,
+      functionName: "mintPublic",
+      buildArgs: (params) => [
+        params.contractAddress, // nftContract
+        KNOWN_CONTRACTS.openSeaFeeRecipient, // feeRecipient
+        zeroAddress, // minterIfNotPayer (mint to payer)
+        BigInt(params.amount || 1) // quantity
+      ],
       calculateValue: (price, params) => price * BigInt(params.amount || 1)
     },
     requiredParams: ["contractAddress", "chainId"],
@@ -51,17 +79,26 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
 
   zora: {
     name: "zora",
+    extensionAddresses: [
+      KNOWN_CONTRACTS.zoraFixedPriceSaleStrategy, // Fixed price sale strategy (minter)
+    ],
     priceDiscovery: {
-      abis: [PRICE_DISCOVERY_ABI],
-      functionNames: ["mintPrice", "price"]
+      abis: [ZORA_1155_ABI],
+      functionNames: ["mintFee"]
     },
     mintConfig: {
-      abi: MINT_ABI,
-      functionName: "mint",
-      buildArgs: (params) => [params.recipient, BigInt(params.amount || 1)],
+      abi: ZORA_1155_ABI,
+      functionName: "mintWithRewards",
+      buildArgs: (params) => [
+        KNOWN_CONTRACTS.zoraFixedPriceSaleStrategy, // minter
+        BigInt(params.tokenId || "1"), // tokenId
+        BigInt(params.amount || 1), // quantity
+        encodeAbiParameters([{ type: "address" }], [params.recipient || zeroAddress]), // minterArguments (mintTo)
+        params.mintReferral || DEFAULT_ZORA_MINT_REFERRAL // mintReferral
+      ],
       calculateValue: (price, params) => price * BigInt(params.amount || 1)
     },
-    requiredParams: ["contractAddress", "chainId"],
+    requiredParams: ["contractAddress", "chainId", "tokenId"],
     supportsERC20: false
   },
 
@@ -132,12 +169,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
           BigInt(params.amount || 1), // _quantity
           THIRDWEB_NATIVE_TOKEN, // _currency (default to ETH)
           BigInt(0), // _pricePerToken (default to 0)
-          {
-            proof: params.merkleProof || [],
-            quantityLimitPerWallet: maxUint256,
-            pricePerToken: maxUint256,
-            currency: "0x0000000000000000000000000000000000000000"
-          }, // _allowlistProof
+          buildThirdwebAllowlistProof(params), // _allowlistProof
           "0x" // _data
         ];
       },
@@ -157,19 +189,19 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
  */
 function getManifoldABI(contractInfo?: any) {
   if (!contractInfo) {
-    console.log("[Manifold ABI] No contract info provided, defaulting to ERC721 ABI");
+    traceLog("[Manifold ABI] No contract info provided, defaulting to ERC721 ABI");
     return MANIFOLD_ERC721_EXTENSION_ABI;
   }
   
   // Use contract type detection to select ABI
   if (contractInfo.isERC721) {
-    console.log("[Manifold ABI] Using ERC721 ABI (14 fields in getClaim)");
+    traceLog("[Manifold ABI] Using ERC721 ABI (14 fields in getClaim)");
     return MANIFOLD_ERC721_EXTENSION_ABI;
   } else if (contractInfo.isERC1155) {
-    console.log("[Manifold ABI] Using ERC1155 ABI (12 fields in getClaim)");
+    traceLog("[Manifold ABI] Using ERC1155 ABI (12 fields in getClaim)");
     return MANIFOLD_ERC1155_EXTENSION_ABI;
   } else {
-    console.log("[Manifold ABI] Contract type unknown, defaulting to ERC721 ABI");
+    traceLog("[Manifold ABI] Contract type unknown, defaulting to ERC721 ABI");
     return MANIFOLD_ERC721_EXTENSION_ABI;
   }
 }
@@ -190,59 +222,66 @@ export function getProviderConfig(provider: string, contractInfo?: any, params?:
       },
       mintConfig: {
         ...baseConfig.mintConfig,
-        abi: manifoldABI
+        abi: manifoldABI,
+        // Quantities above one go through mintBatch (public claims only, merkle claims mint one index at a time)
+        ...((params?.amount || 1) > 1 && {
+          functionName: "mintBatch",
+          buildArgs: (params: MintParams) => [
+            params.contractAddress,
+            BigInt(params.instanceId || "0"),
+            params.amount || 1,
+            [],
+            [],
+            params.recipient
+          ]
+        })
       }
     };
   }
   
+  // For OpenSea SeaDrop, use the fee recipient resolved from the public drop
+  if (provider === "opensea" && contractInfo?.publicDrop) {
+    const { feeRecipient } = contractInfo.publicDrop;
+
+    return {
+      ...baseConfig,
+      mintConfig: {
+        ...baseConfig.mintConfig,
+        buildArgs: (params) => [
+          params.contractAddress, // nftContract
+          feeRecipient, // feeRecipient
+          zeroAddress, // minterIfNotPayer (mint to payer)
+          BigInt(params.amount || 1) // quantity
+        ]
+      }
+    };
+  }
+
+  // For Zora, mint through the resolved minter and add the protocol mint fee per token
+  if (provider === "zora" && contractInfo?.zoraSale) {
+    const { minter, mintFee } = contractInfo.zoraSale;
+
+    return {
+      ...baseConfig,
+      mintConfig: {
+        ...baseConfig.mintConfig,
+        buildArgs: (params) => [
+          minter, // minter
+          BigInt(params.tokenId || "1"), // tokenId
+          BigInt(params.amount || 1), // quantity
+          encodeAbiParameters([{ type: "address" }], [params.recipient || zeroAddress]), // minterArguments (mintTo)
+          params.mintReferral || DEFAULT_ZORA_MINT_REFERRAL // mintReferral
+        ],
+        calculateValue: (price, params) => (price + mintFee) * BigInt(params.amount || 1)
+      }
+    };
+  }
+
   // For thirdweb, we need to handle different contract types
   if (provider === "thirdweb") {
     // Handle ERC1155 Extensions with proper ABI and parameters
     if (contractInfo?.isERC1155) {
-      console.log("[Provider Config] Using Thirdweb ERC1155 Extension configuration");
-      
-      // For the specific hardcoded contract, use exact parameters from successful transaction
-      if (params?.contractAddress?.toLowerCase() === "0xcd0bafa3bba1b32869343fb69d2778daf4412181") {
-        console.log("[Provider Config] Using exact claim parameters from successful transaction");
-        return {
-          ...baseConfig,
-          mintConfig: {
-            abi: THIRDWEB_ERC1155_EXTENSION_ABI,
-            functionName: "claim",
-            buildArgs: (params) => {
-              console.group("🔧 [PROVIDER CONFIG] Building Thirdweb hardcoded args");
-              console.log("Params received:", params);
-              
-              const args = [
-                params.recipient, // _receiver
-                BigInt(0), // _tokenId = 0 (from successful transaction)
-                BigInt(params.amount || 1), // _quantity
-                THIRDWEB_NATIVE_TOKEN, // _currency (native XDAI)
-                BigInt("1000000000000000000"), // _pricePerToken (1 XDAI)
-                {
-                  proof: [], // empty proof array
-                  quantityLimitPerWallet: BigInt(0), // 0 limit
-                  pricePerToken: maxUint256, // max uint256
-                  currency: "0x0000000000000000000000000000000000000000" // zero address
-                }, // _allowlistProof
-                "0x" // _data (empty)
-              ];
-              
-              console.log("Built hardcoded args:", args);
-              console.groupEnd();
-              return args;
-            },
-            calculateValue: (price, params) => {
-              return BigInt("1000000000000000000") * BigInt(params.amount || 1); // 1 XDAI per token
-            }
-          },
-          priceDiscovery: {
-            abis: [THIRDWEB_ERC1155_EXTENSION_ABI],
-            functionNames: ["claimCondition"],
-            requiresInstanceId: false
-          }
-        };
-      }
+      traceLog("[Provider Config] Using Thirdweb ERC1155 Extension configuration");
       
       return {
         ...baseConfig,
@@ -250,24 +289,17 @@ export function getProviderConfig(provider: string, contractInfo?: any, params?:
           abi: THIRDWEB_ERC1155_EXTENSION_ABI,
           functionName: "claim",
           buildArgs: (params) => {
-            // For ERC1155 Extensions, try to get price from hardcoded value or use 0
-            const pricePerToken = params.contractAddress?.toLowerCase() === "0xcd0bafa3bba1b32869343fb69d2778daf4412181" 
-              ? BigInt("1000000000000000000") // 1 XDAI
-              : contractInfo.claimCondition?.pricePerToken || BigInt(0);
-            const currency = contractInfo.claimCondition?.currency || THIRDWEB_NATIVE_TOKEN;
+            // Price and currency come from the active claim condition for the token
+            const pricePerToken = params.allowlistEntry?.pricePerToken ?? (contractInfo.claimCondition?.pricePerToken || BigInt(0));
+            const currency = params.allowlistEntry?.currency || contractInfo.claimCondition?.currency || THIRDWEB_NATIVE_TOKEN;
             
             return [
               params.recipient, // _receiver
-              BigInt(params.tokenId || "1"), // _tokenId (use provided token ID, default to 1)
+              BigInt(params.tokenId || "0"), // _tokenId (use provided token ID, default to 0)
               BigInt(params.amount || 1), // _quantity
               currency, // _currency
               pricePerToken, // _pricePerToken
-              {
-                proof: params.merkleProof || [],
-                quantityLimitPerWallet: maxUint256,
-                pricePerToken: maxUint256,
-                currency: "0x0000000000000000000000000000000000000000"
-              }, // _allowlistProof
+              buildThirdwebAllowlistProof(params), // _allowlistProof
               "0x" // _data
             ];
           },
@@ -295,20 +327,15 @@ export function getProviderConfig(provider: string, contractInfo?: any, params?:
         mintConfig: {
           ...baseConfig.mintConfig,
           buildArgs: (params) => {
-            const pricePerToken = contractInfo.claimCondition.pricePerToken || BigInt(0);
-            const currency = contractInfo.claimCondition.currency || THIRDWEB_NATIVE_TOKEN;
+            const pricePerToken = params.allowlistEntry?.pricePerToken ?? (contractInfo.claimCondition.pricePerToken || BigInt(0));
+            const currency = params.allowlistEntry?.currency || contractInfo.claimCondition.currency || THIRDWEB_NATIVE_TOKEN;
             
             return [
               params.recipient || params.contractAddress, // _receiver
               BigInt(params.amount || 1), // _quantity
               currency, // _currency
               pricePerToken, // _pricePerToken
-              {
-                proof: params.merkleProof || [],
-                quantityLimitPerWallet: maxUint256,
-                pricePerToken: maxUint256,
-                currency: "0x0000000000000000000000000000000000000000"
-              }, // _allowlistProof
+              buildThirdwebAllowlistProof(params), // _allowlistProof
               "0x" // _data
             ];
           },
@@ -326,4 +353,101 @@ export function getProviderConfig(provider: string, contractInfo?: any, params?:
   }
   
   return baseConfig;
-}
\ No newline at end of file
+}
+
+/**
+ * Build the contract call for a mint, using a registered adapter when one handles the provider
+ */
+export function buildMintCall(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: Pick<MintPriceData, "totalCost">
+): MintCall {
+  const adapter = getMintAdapter(contractInfo.provider);
+  if (adapter) {
+    return adapter.buildMint(params, contractInfo, priceData);
+  }
+
+  const config = getProviderConfig(contractInfo.provider, contractInfo, params);
+
+  // Manifold and SeaDrop mint through a separate contract
+  const address =
+    (contractInfo.provider === "manifold" || contractInfo.provider === "opensea") &&
+    contractInfo.extensionAddress
+      ? contractInfo.extensionAddress
+      : params.contractAddress;
+
+  return {
+    address,
+    abi: config.mintConfig.abi,
+    functionName: config.mintConfig.functionName,
+    args: config.mintConfig.buildArgs(params),
+    value: priceData.totalCost || BigInt(0)
+  };
+}
+
+/**
+ * Recompute the mint value for params.amount from the price data's unit price.
+ * Returns null when the provider didn't report a per-token price.
+ */
+export function calculateTotalCost(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: Pick<MintPriceData, "unitPrice">
+): bigint | null {
+  const unitPrice = params.allowlistEntry?.pricePerToken ?? priceData.unitPrice;
+  if (unitPrice === undefined) return null;
+
+  const config = getProviderConfig(contractInfo.provider, contractInfo, params);
+  return config.mintConfig.calculateValue(unitPrice, params);
+}
+
+/**
+ * Price data with the allowlist price per token applied: the unit price (which the ERC20
+ * amount is based on) and the mint value. Unchanged without an allowlist price.
+ */
+export function applyAllowlistPrice<T extends Pick<MintPriceData, "unitPrice" | "totalCost">>(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: T,
+): T {
+  const pricePerToken = params.allowlistEntry?.pricePerToken;
+  if (pricePerToken === undefined) return priceData;
+  return {
+    ...priceData,
+    unitPrice: pricePerToken,
+    totalCost: calculateTotalCost(params, contractInfo, priceData) ?? priceData.totalCost,
+  };
+}
+
+/**
+ * Wallet that sends and pays for the mint; differs from the recipient for gifts
+ */
+export function getMintAccount(params: Pick<MintParams, "account" | "recipient">): Address | undefined {
+  return params.account ?? params.recipient;
+}
+
+/**
+ * Whether the mint call takes an explicit recipient instead of minting to msg.sender.
+ * Allowlist claims are excluded: Manifold and thirdweb check the proof against msg.sender.
+ */
+export function canMintToRecipient(contractInfo: NFTContractInfo): boolean {
+  // SeaDrop and NFTs2Me / generic mint(amount) always mint to msg.sender
+  if (!["manifold", "zora", "thirdweb"].includes(contractInfo.provider)) return false;
+  return !requiresMerkleProof(contractInfo);
+}
+
+/**
+ * Build a mint call that redeems a signed Permit2 transfer, for adapters whose minter accepts one.
+ * Returns null when the provider needs a classic approval.
+ */
+export function buildPermit2MintCall(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+  priceData: MintPriceData,
+  permit: SignedPermit
+): MintCall | null {
+  const adapter = getMintAdapter(contractInfo.provider);
+  if (!adapter?.buildPermit2Mint || permit.kind !== "permit2") return null;
+  return adapter.buildPermit2Mint(params, contractInfo, priceData, permit);
+}
@@ -2,22 +2,67 @@ import { type Address, type PublicClient } from "viem";
 import type {
   NFTProvider,
   NFTContractInfo,
+  MintAdapter,
   MintParams,
 } from "~/lib/types";
 import { PROVIDER_CONFIGS } from "~/lib/provider-configs";
-import { getPublicClient } from "~/lib/chains";
+import { batchReadContracts, getPublicClient, type BatchReadResult } from "~/lib/chains";
+import { getMintAdapter, getMintAdapters } from "~/lib/provider-registry";
+import { traceLog } from "~/lib/mint-trace";
 import {
   ERC165_ABI,
   INTERFACE_IDS,
   MANIFOLD_DETECTION_ABI,
+  NFTS2ME_DETECTION_ABI,
+  SEADROP_TOKEN_ABI,
+  THIRDWEB_DETECTION_ABI,
+  THIRDWEB_DROP1155_CLAIM_ABI,
+  THIRDWEB_ERC1155_EXTENSION_ABI,
+  ZORA_1155_ABI,
 } from "~/lib/nft-standards";
 
 // Re-export from shared library for backward compatibility
 export const getClientForChain = getPublicClient;
 
 /**
- * Detects NFT provider and contract info with minimal RPC calls
- * Uses multicall where possible to batch requests
+ * Build contract info from an adapter's detect result
+ */
+function toAdapterContractInfo(
+  adapter: MintAdapter,
+  detected: Partial<NFTContractInfo> | true,
+): NFTContractInfo {
+  return {
+    isERC1155: false,
+    isERC721: false,
+    ...(detected === true ? {} : detected),
+    provider: adapter.name,
+  };
+}
+
+/**
+ * Ask registered mint adapters (in priority order) whether they handle the contract
+ */
+async function detectWithAdapters(
+  client: PublicClient,
+  params: MintParams,
+): Promise<NFTContractInfo | null> {
+  for (const adapter of getMintAdapters()) {
+    try {
+      const detected = await adapter.detect(client, params);
+      if (detected) {
+        traceLog(`[Provider Detection] ✅ Detected by registered adapter: ${adapter.name}`);
+        return toAdapterContractInfo(adapter, detected);
+      }
+    } catch (error) {
+      traceLog(`[Provider Detection] ❌ Adapter ${adapter.name} detection failed: ${error}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Detects NFT provider and contract info with minimal RPC calls.
+ * All ERC165 checks and provider fingerprints go out in a single Multicall3 batch.
  */
 export async function detectNFTProvider(
   params: MintParams,
@@ -25,25 +70,23 @@ export async function detectNFTProvider(
   const { contractAddress, chainId, provider: specifiedProvider } = params;
   const client = getClientForChain(chainId);
 
-  console.log(
+  traceLog(
     `[Provider Detection] Starting for contract ${contractAddress} on chain ${chainId}`,
   );
 
-  // Hardcode specific contract as Thirdweb Extension
-  if (contractAddress.toLowerCase() === "0xcd0bafa3bba1b32869343fb69d2778daf4412181") {
-    console.log(`[Provider Detection] ✅ Hardcoded Thirdweb ERC1155 Extension for known contract`);
-    return {
-      provider: "thirdweb",
-      isERC1155: true,
-      isERC721: false,
-    };
-  }
-
   // If provider is specified, use known configuration
   if (specifiedProvider) {
-    console.log(
+    traceLog(
       `[Provider Detection] Using specified provider: ${specifiedProvider}`,
     );
+
+    // Registered adapters fill in their own contract info
+    const adapter = getMintAdapter(specifiedProvider);
+    if (adapter) {
+      const detected = await adapter.detect(client, params).catch(() => null);
+      return toAdapterContractInfo(adapter, detected || true);
+    }
+
     const config = PROVIDER_CONFIGS[specifiedProvider];
 
     // For Manifold, we know the extension address
@@ -57,6 +100,25 @@ export async function detectNFTProvider(
       };
     }
 
+    // Zora creator contracts are ERC1155
+    if (specifiedProvider === "zora") {
+      return {
+        provider: "zora",
+        isERC1155: true,
+        isERC721: false,
+      };
+    }
+
+    // SeaDrop mints go through the SeaDrop contract
+    if (specifiedProvider === "opensea" && config.extensionAddresses?.[0]) {
+      return {
+        provider: "opensea",
+        isERC1155: false,
+        isERC721: true,
+        extensionAddress: config.extensionAddresses[0],
+      };
+    }
+
     // For other providers, return basic info
     return {
       provider: specifiedProvider,
@@ -65,609 +127,157 @@ export async function detectNFTProvider(
     };
   }
 
+  // Registered adapters take precedence over built-in detection
+  const adapterInfo = await detectWithAdapters(client, params);
+  if (adapterInfo) {
+    return adapterInfo;
+  }
+
   try {
-    // Batch 1: Check interfaces and Manifold extensions in parallel
-    const [isERC721, isERC1155, extensions] = await Promise.all([
-      client
-        .readContract({
-          address: contractAddress,
-          abi: ERC165_ABI,
-          functionName: "supportsInterface",
-          args: [INTERFACE_IDS.ERC721],
-        })
-        .catch(() => false),
-
-      client
-        .readContract({
-          address: contractAddress,
-          abi: ERC165_ABI,
-          functionName: "supportsInterface",
-          args: [INTERFACE_IDS.ERC1155],
-        })
-        .catch(() => false),
-
-      client
-        .readContract({
-          address: contractAddress,
-          abi: MANIFOLD_DETECTION_ABI,
-          functionName: "getExtensions",
-        })
-        .catch(() => null),
+    const tokenId = BigInt(params.tokenId || "0");
+    const contract = { address: contractAddress } as const;
+
+    // Single round trip: ERC165 checks plus every provider fingerprint
+    const results = await batchReadContracts(client, [
+      { ...contract, abi: ERC165_ABI, functionName: "supportsInterface", args: [INTERFACE_IDS.ERC721] },
+      { ...contract, abi: ERC165_ABI, functionName: "supportsInterface", args: [INTERFACE_IDS.ERC1155] },
+      { ...contract, abi: ERC165_ABI, functionName: "supportsInterface", args: [INTERFACE_IDS.ISignatureMintERC1155] },
+      { ...contract, abi: MANIFOLD_DETECTION_ABI, functionName: "getExtensions" },
+      { ...contract, abi: SEADROP_TOKEN_ABI, functionName: "getAllowedSeaDrop" },
+      { ...contract, abi: NFTS2ME_DETECTION_ABI, functionName: "n2mVersion" },
+      { ...contract, abi: ZORA_1155_ABI, functionName: "mintFee" },
+      { ...contract, abi: ZORA_1155_ABI, functionName: "contractVersion" },
+      { ...contract, abi: ZORA_1155_ABI, functionName: "nextTokenId" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "claimCondition" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "sharedMetadata" },
+      { ...contract, abi: THIRDWEB_ERC1155_EXTENSION_ABI, functionName: "claimCondition", args: [tokenId] },
+      { ...contract, abi: THIRDWEB_DROP1155_CLAIM_ABI, functionName: "claimCondition", args: [tokenId] },
+      { ...contract, abi: THIRDWEB_ERC1155_EXTENSION_ABI, functionName: "getActiveClaimConditionId", args: [tokenId] },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "contractURI" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "owner" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "nextTokenIdToMint" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "getAllExtensions" },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "uri", args: [BigInt(0)] },
+      { ...contract, abi: THIRDWEB_DETECTION_ABI, functionName: "totalSupply", args: [BigInt(0)] },
     ]);
 
+    const [
+      erc721Support,
+      erc1155Support,
+      signatureMintSupport,
+      extensionsResult,
+      allowedSeaDropResult,
+      n2mVersionResult,
+      zoraMintFee,
+      zoraVersion,
+      zoraNextTokenId,
+      erc721ClaimCondition,
+      sharedMetadata,
+      singlePhaseClaimCondition,
+      multiPhaseClaimCondition,
+      activeClaimConditionId,
+      contractURI,
+      owner,
+      nextTokenIdToMint,
+      allExtensions,
+      tokenURI,
+      tokenSupply,
+    ] = results;
+
+    const succeeded = (result: BatchReadResult) => result.status === "success";
+    const valueOf = <T,>(result: BatchReadResult): T | undefined =>
+      result.status === "success" ? (result.result as T) : undefined;
+
+    const isERC721 = valueOf<boolean>(erc721Support) === true;
+    const isERC1155 = valueOf<boolean>(erc1155Support) === true;
+    const interfaces = { isERC1155, isERC721 };
+
     // Check if it's a Manifold contract
+    const extensions = valueOf<readonly Address[]>(extensionsResult);
     if (extensions && extensions.length > 0) {
       const knownManifoldExtension = extensions.find((ext) =>
         PROVIDER_CONFIGS.manifold.extensionAddresses?.includes(ext),
       );
 
-      if (knownManifoldExtension || extensions.length > 0) {
-        console.log(
-          `[Provider Detection] ✅ Detected as Manifold (has extensions)`,
-        );
-        return {
-          provider: "manifold",
-          isERC1155: isERC1155 as boolean,
-          isERC721: isERC721 as boolean,
-          extensionAddress: knownManifoldExtension || extensions[0],
-          hasManifoldExtension: true,
-        };
-      }
+      traceLog(
+        `[Provider Detection] ✅ Detected as Manifold (has extensions)`,
+      );
+      return {
+        provider: "manifold",
+        ...interfaces,
+        extensionAddress: knownManifoldExtension || extensions[0],
+        hasManifoldExtension: true,
+      };
     }
 
-    // Check if it's an NFTs2Me contract by looking for unique functions
-    try {
-      // Try to call n2mVersion - this is unique to NFTs2Me contracts
-      const version = await client.readContract({
-        address: contractAddress,
-        abi: [
-          {
-            inputs: [],
-            name: "n2mVersion",
-            outputs: [{ name: "", type: "uint256" }],
-            stateMutability: "pure",
-            type: "function",
-          },
-        ],
-        functionName: "n2mVersion",
-      });
-
-      // If n2mVersion exists, it's an NFTs2Me contract
-      if (version !== undefined) {
-        console.log(
-          `[Provider Detection] ✅ Detected as NFTs2Me (n2mVersion: ${version})`,
-        );
-        return {
-          provider: "nfts2me",
-          isERC1155: isERC1155 as boolean,
-          isERC721: isERC721 as boolean,
-        };
-      }
-    } catch {
-      // Not an NFTs2Me contract, continue detection
+    // Check if it's an OpenSea SeaDrop contract (has an allowed SeaDrop list)
+    const allowedSeaDrop = valueOf<readonly Address[]>(allowedSeaDropResult);
+    if (allowedSeaDrop && allowedSeaDrop.length > 0) {
+      const knownSeaDrop = allowedSeaDrop.find((seaDrop) =>
+        PROVIDER_CONFIGS.opensea.extensionAddresses?.some(
+          (known) => known.toLowerCase() === seaDrop.toLowerCase(),
+        ),
+      );
+
+      traceLog(
+        `[Provider Detection] ✅ Detected as OpenSea SeaDrop (allowed SeaDrop: ${knownSeaDrop || allowedSeaDrop[0]})`,
+      );
+      return {
+        provider: "opensea",
+        ...interfaces,
+        extensionAddress: knownSeaDrop || allowedSeaDrop[0],
+      };
     }
 
-    // Check if it's a thirdweb contract (ERC721 or ERC1155)
-    console.log(`[Thirdweb Detection] Checking contract: ${contractAddress}`);
-    
-    // First try ERC721 pattern (OpenEditionERC721)
-    if (isERC721) {
-      try {
-        const claimConditionResult = await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [],
-              name: "claimCondition",
-              outputs: [
-                { name: "currentStartId", type: "uint256" },
-                { name: "count", type: "uint256" },
-              ],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "claimCondition",
-        });
-        
-        // Verify the result is a valid tuple with 2 uint256 values
-        if (Array.isArray(claimConditionResult) && claimConditionResult.length === 2) {
-          console.log(`[Thirdweb Detection] ✅ Found ERC721 claimCondition: startId=${claimConditionResult[0]}, count=${claimConditionResult[1]}`);
-          
-          // Optional: Quick validation of sharedMetadata to reduce false positives
-          try {
-            await client.readContract({
-              address: contractAddress,
-              abi: [
-                {
-                  inputs: [],
-                  name: "sharedMetadata",
-                  outputs: [
-                    { name: "name", type: "string" },
-                    { name: "description", type: "string" },
-                    { name: "imageURI", type: "string" },
-                    { name: "animationURI", type: "string" },
-                  ],
-                  stateMutability: "view",
-                  type: "function",
-                },
-              ],
-              functionName: "sharedMetadata",
-            });
-            console.log(`[Thirdweb Detection] ✅ Confirmed ERC721 with sharedMetadata`);
-          } catch {
-            // sharedMetadata not found, but claimCondition is strong enough signal
-            console.log(`[Thirdweb Detection] ⚠️ ERC721 sharedMetadata not found, but claimCondition is sufficient`);
-          }
-        
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        }
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ ERC721 claimCondition check failed: ${error}`);
-      }
+    // Check if it's an NFTs2Me contract (n2mVersion is unique to NFTs2Me)
+    if (succeeded(n2mVersionResult)) {
+      traceLog(
+        `[Provider Detection] ✅ Detected as NFTs2Me (n2mVersion: ${valueOf(n2mVersionResult)})`,
+      );
+      return { provider: "nfts2me", ...interfaces };
     }
-    
-    // Try ERC1155 patterns if it's an ERC1155 contract
+
+    // Check if it's a Zora 1155 creator contract (mintFee + contractVersion + nextTokenId)
+    if (isERC1155 && succeeded(zoraMintFee) && succeeded(zoraVersion) && succeeded(zoraNextTokenId)) {
+      traceLog(
+        `[Provider Detection] ✅ Detected as Zora 1155 (version: ${valueOf(zoraVersion)}, mintFee: ${valueOf(zoraMintFee)})`,
+      );
+      return { provider: "zora", ...interfaces };
+    }
+
+    // thirdweb ERC721 (OpenEditionERC721 / DropERC721): claimCondition() returns (startId, count)
+    if (isERC721 && succeeded(erc721ClaimCondition)) {
+      const [currentStartId, count] = valueOf<readonly [bigint, bigint]>(erc721ClaimCondition)!;
+      traceLog(
+        `[Thirdweb Detection] ✅ Found ERC721 claimCondition: startId=${currentStartId}, count=${count}` +
+          (succeeded(sharedMetadata) ? " (confirmed with sharedMetadata)" : ""),
+      );
+      return { provider: "thirdweb", ...interfaces };
+    }
+
+    // thirdweb ERC1155 (Edition Drop, signature mint and dynamic Extension contracts)
     if (isERC1155) {
-      console.log(`[Thirdweb Detection] Trying ERC1155 patterns...`);
-      
-      // Pattern 1: Check for claimCondition mapping with tokenId (DropSinglePhase1155)
-      try {
-        const claimConditionResult = await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [{ name: "tokenId", type: "uint256" }],
-              name: "claimCondition",
-              outputs: [
-                { name: "startTimestamp", type: "uint256" },
-                { name: "maxClaimableSupply", type: "uint256" },
-                { name: "supplyClaimed", type: "uint256" },
-                { name: "merkleRoot", type: "bytes32" },
-                { name: "pricePerToken", type: "uint256" },
-                { name: "currency", type: "address" },
-                { name: "metadata", type: "string" },
-              ],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "claimCondition",
-          args: [0n], // Try with tokenId 0 (from successful transaction)
-        });
-        
-        if (claimConditionResult && typeof claimConditionResult === 'object') {
-          console.log(`[Thirdweb Detection] ✅ Found ERC1155 claimCondition mapping`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        }
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ ERC1155 claimCondition mapping check failed: ${error}`);
-      }
-      
-      // Pattern 2: Check for multi-phase drop pattern
-      try {
-        const activeClaimConditionId = await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [],
-              name: "getActiveClaimConditionId",
-              outputs: [{ name: "", type: "uint256" }],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "getActiveClaimConditionId",
-        });
-        
-        if (typeof activeClaimConditionId === 'bigint' || typeof activeClaimConditionId === 'number') {
-          console.log(`[Thirdweb Detection] ✅ Found ERC1155 multi-phase pattern (activeId: ${activeClaimConditionId})`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        }
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ ERC1155 multi-phase check failed: ${error}`);
-      }
-      
-      // Pattern 3: Check for signature minting pattern
-      try {
-        await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [
-                { name: "req", type: "tuple", components: [
-                  { name: "to", type: "address" },
-                  { name: "tokenId", type: "uint256" },
-                  { name: "quantity", type: "uint256" },
-                  { name: "pricePerToken", type: "uint256" },
-                  { name: "currency", type: "address" },
-                  { name: "validityStartTimestamp", type: "uint128" },
-                  { name: "validityEndTimestamp", type: "uint128" },
-                  { name: "uid", type: "bytes32" }
-                ]},
-                { name: "signature", type: "bytes" }
-              ],
-              name: "verify",
-              outputs: [
-                { name: "success", type: "bool" },
-                { name: "signer", type: "address" }
-              ],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "verify",
-          args: [
-            { to: "0x0000000000000000000000000000000000000000", tokenId: 0n, quantity: 1n, pricePerToken: 0n, currency: "0x0000000000000000000000000000000000000000", validityStartTimestamp: 0n, validityEndTimestamp: 0n, uid: "0x0000000000000000000000000000000000000000000000000000000000000000" },
-            "0x"
-          ],
-        });
-        
-        console.log(`[Thirdweb Detection] ✅ Found ERC1155 signature minting pattern`);
-        return {
-          provider: "thirdweb",
-          isERC1155: isERC1155 as boolean,
-          isERC721: isERC721 as boolean,
-        };
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ ERC1155 signature minting check failed: ${error}`);
-      }
-      
-      // Pattern 4: Check for common Thirdweb functions (contractURI, owner, etc.)
-      const thirdwebIndicators = [
-        "contractURI", "owner", "nextTokenIdToMint", "totalSupply", 
-        "mintTo", "lazyMint", "reveal", "setClaimConditions"
-      ];
-      
-      let foundIndicators = 0;
-      for (const functionName of thirdwebIndicators) {
-        try {
-          await client.readContract({
-            address: contractAddress,
-            abi: [
-              {
-                inputs: [],
-                name: functionName,
-                outputs: [{ name: "", type: "string" }], // Generic output type
-                stateMutability: "view",
-                type: "function",
-              },
-            ],
-            functionName: functionName,
-          });
-          foundIndicators++;
-          console.log(`[Thirdweb Detection] ✅ Found indicator function: ${functionName}`);
-          
-          // If we find 2+ Thirdweb indicators, it's likely a Thirdweb contract
-          if (foundIndicators >= 2) {
-            console.log(`[Thirdweb Detection] ✅ Found ${foundIndicators} Thirdweb indicators - likely Thirdweb ERC1155`);
-            return {
-              provider: "thirdweb",
-              isERC1155: isERC1155 as boolean,
-              isERC721: isERC721 as boolean,
-            };
-          }
-        } catch (error) {
-          // Function not found, continue
-        }
-      }
-      
-      // Pattern 5: Check for Drop1155 specific functions
-      const drop1155Functions = ["claim", "setClaimConditions", "getActiveClaimConditionId", "verifyClaim"];
-      for (const functionName of drop1155Functions) {
-        try {
-          // Try calling the function with minimal args to see if it exists
-          const result = await client.readContract({
-            address: contractAddress,
-            abi: [
-              {
-                inputs: [],
-                name: functionName,
-                outputs: [{ name: "", type: "uint256" }],
-                stateMutability: "view", 
-                type: "function",
-              },
-            ],
-            functionName: functionName,
-          });
-          
-          console.log(`[Thirdweb Detection] ✅ Found Drop1155 function: ${functionName}`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        } catch (error) {
-          // Try different signatures for functions that take parameters
-          if (functionName === "claim" || functionName === "verifyClaim") {
-            try {
-              // Try with parameters (these functions typically need args)
-              await client.readContract({
-                address: contractAddress,
-                abi: [
-                  {
-                    inputs: [
-                      { name: "_receiver", type: "address" },
-                      { name: "_tokenId", type: "uint256" },
-                      { name: "_quantity", type: "uint256" },
-                      { name: "_currency", type: "address" },
-                      { name: "_pricePerToken", type: "uint256" }
-                    ],
-                    name: functionName,
-                    outputs: [],
-                    stateMutability: "payable",
-                    type: "function",
-                  },
-                ],
-                functionName: functionName,
-              });
-              
-              console.log(`[Thirdweb Detection] ✅ Found Drop1155 function with params: ${functionName}`);
-              return {
-                provider: "thirdweb",
-                isERC1155: isERC1155 as boolean,
-                isERC721: isERC721 as boolean,
-              };
-            } catch (innerError) {
-              // Function signature doesn't match, continue
-            }
-          }
-        }
-      }
-      
-      // Pattern 6: Check for Thirdweb NFT Extension patterns (ERC-7504 Dynamic Contracts)
-      console.log(`[Thirdweb Detection] Checking NFT Extension patterns...`);
-      
-      // First check: ERC165 interface detection for Thirdweb extensions
-      try {
-        // Check for signature minting interface (common in Extensions)
-        const supportsSignatureMint = await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [{ name: "interfaceId", type: "bytes4" }],
-              name: "supportsInterface",
-              outputs: [{ name: "", type: "bool" }],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "supportsInterface",
-          args: ["0x4e2312e0"], // ISignatureMintERC1155 interface ID
-        });
-        
-        if (supportsSignatureMint) {
-          console.log(`[Thirdweb Detection] ✅ Found ISignatureMintERC1155 interface - Thirdweb Extension`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        }
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ Interface check failed: ${error}`);
-      }
-      
-      // Check for signature minting pattern (most common in Extensions)
-      try {
-        await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [
-                { name: "_req", type: "tuple", components: [
-                  { name: "to", type: "address" },
-                  { name: "royaltyRecipient", type: "address" },
-                  { name: "royaltyBps", type: "uint256" },
-                  { name: "primarySaleRecipient", type: "address" },
-                  { name: "tokenId", type: "uint256" },
-                  { name: "uri", type: "string" },
-                  { name: "quantity", type: "uint256" },
-                  { name: "pricePerToken", type: "uint256" },
-                  { name: "currency", type: "address" },
-                  { name: "validityStartTimestamp", type: "uint128" },
-                  { name: "validityEndTimestamp", type: "uint128" },
-                  { name: "uid", type: "bytes32" }
-                ]},
-                { name: "_signature", type: "bytes" }
-              ],
-              name: "mintWithSignature",
-              outputs: [],
-              stateMutability: "payable",
-              type: "function",
-            },
-          ],
-          functionName: "mintWithSignature",
-        });
-        
-        console.log(`[Thirdweb Detection] ✅ Found mintWithSignature - Thirdweb Extension ERC1155`);
-        return {
-          provider: "thirdweb",
-          isERC1155: isERC1155 as boolean,
-          isERC721: isERC721 as boolean,
-        };
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ mintWithSignature check failed: ${error}`);
-      }
-      
-      // Extension contracts have these specific management functions
-      const extensionFunctions = [
-        "getAllExtensions", 
-        "addExtension",
-        "removeExtension",
-        "replaceExtension",
-        "getMetadataForFunction"
-      ];
-      
-      for (const functionName of extensionFunctions) {
-        try {
-          await client.readContract({
-            address: contractAddress,
-            abi: [
-              {
-                inputs: [],
-                name: functionName,
-                outputs: [{ name: "", type: "address[]" }], // Extensions typically return addresses
-                stateMutability: "view",
-                type: "function",
-              },
-            ],
-            functionName: functionName,
-          });
-          
-          console.log(`[Thirdweb Detection] ✅ Found NFT Extension function: ${functionName}`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        } catch (error) {
-          // Try different output types for extension functions
-          try {
-            await client.readContract({
-              address: contractAddress,
-              abi: [
-                {
-                  inputs: [{ name: "extensionName", type: "string" }],
-                  name: functionName,
-                  outputs: [{ name: "", type: "address" }],
-                  stateMutability: "view",
-                  type: "function",
-                },
-              ],
-              functionName: functionName,
-              args: [""], // Empty string as extension name argument
-            });
-            
-            console.log(`[Thirdweb Detection] ✅ Found NFT Extension function with param: ${functionName}`);
-            return {
-              provider: "thirdweb",
-              isERC1155: isERC1155 as boolean,
-              isERC721: isERC721 as boolean,
-            };
-          } catch (innerError) {
-            // Function not found with this signature, continue
-          }
-        }
-      }
-      
-      // Pattern 7: Check for Extension-specific metadata and initialization functions
-      const extensionMetadataFunctions = [
-        "_initializeOwner",
-        "_setupRole", 
-        "_setupContractURI",
-        "_setupDefaultRoyalty",
-        "_setupPrimarySaleRecipient"
-      ];
-      
-      let extensionIndicators = 0;
-      for (const functionName of extensionMetadataFunctions) {
-        try {
-          // These are typically initialization functions, so we just check if they exist
-          await client.readContract({
-            address: contractAddress,
-            abi: [
-              {
-                inputs: [{ name: "data", type: "bytes" }],
-                name: functionName,
-                outputs: [],
-                stateMutability: "nonpayable",
-                type: "function",
-              },
-            ],
-            functionName: functionName,
-          });
-          
-          extensionIndicators++;
-          console.log(`[Thirdweb Detection] ✅ Found Extension metadata function: ${functionName}`);
-          
-          // If we find 2+ extension indicators, it's likely a Thirdweb Extension contract
-          if (extensionIndicators >= 2) {
-            console.log(`[Thirdweb Detection] ✅ Found ${extensionIndicators} Extension indicators - likely Thirdweb Extension ERC1155`);
-            return {
-              provider: "thirdweb",
-              isERC1155: isERC1155 as boolean,
-              isERC721: isERC721 as boolean,
-            };
-          }
-        } catch (error) {
-          // Function not found, continue
-        }
-      }
-      
-      // Pattern 8: Check for common ERC1155 Extension patterns (token-specific functions)
-      try {
-        // Extensions often have functions that work with token IDs
-        await client.readContract({
-          address: contractAddress,
-          abi: [
-            {
-              inputs: [{ name: "tokenId", type: "uint256" }],
-              name: "uri",
-              outputs: [{ name: "", type: "string" }],
-              stateMutability: "view",
-              type: "function",
-            },
-          ],
-          functionName: "uri",
-          args: [0n],
-        });
-        
-        console.log(`[Thirdweb Detection] ✅ Found ERC1155 uri function - checking for Thirdweb patterns`);
-        
-        // If uri works, try to call totalSupply for token 0 (common in Extensions)
-        try {
-          await client.readContract({
-            address: contractAddress,
-            abi: [
-              {
-                inputs: [{ name: "id", type: "uint256" }],
-                name: "totalSupply",
-                outputs: [{ name: "", type: "uint256" }],
-                stateMutability: "view",
-                type: "function",
-              },
-            ],
-            functionName: "totalSupply",
-            args: [0n],
-          });
-          
-          console.log(`[Thirdweb Detection] ✅ Found ERC1155 totalSupply with tokenId - likely Thirdweb Extension`);
-          return {
-            provider: "thirdweb",
-            isERC1155: isERC1155 as boolean,
-            isERC721: isERC721 as boolean,
-          };
-        } catch (innerError) {
-          // totalSupply signature doesn't match, continue
-        }
-      } catch (error) {
-        console.log(`[Thirdweb Detection] ❌ ERC1155 uri check failed: ${error}`);
+      const indicatorCount = [contractURI, owner, nextTokenIdToMint].filter(succeeded).length;
+      const thirdwebSignal =
+        (succeeded(singlePhaseClaimCondition) && "claimCondition mapping") ||
+        (succeeded(multiPhaseClaimCondition) && "multi-phase claimCondition") ||
+        (succeeded(activeClaimConditionId) && "active claim condition") ||
+        (valueOf<boolean>(signatureMintSupport) === true && "ISignatureMintERC1155 interface") ||
+        (indicatorCount >= 2 && `${indicatorCount} thirdweb indicator functions`) ||
+        (succeeded(allExtensions) && "getAllExtensions") ||
+        (succeeded(tokenURI) && succeeded(tokenSupply) && "uri + totalSupply(tokenId)");
+
+      if (thirdwebSignal) {
+        traceLog(`[Thirdweb Detection] ✅ Detected thirdweb ERC1155 via ${thirdwebSignal}`);
+        return { provider: "thirdweb", ...interfaces };
       }
     }
 
-    // TODO: Add detection for OpenSea, Zora, etc.
-    // For now, return generic
-    console.log(
+    // No specific platform detected, return generic
+    traceLog(
       `[Provider Detection] Final result: Generic provider (no specific platform detected)`,
     );
-    return {
-      provider: "generic",
-      isERC1155: isERC1155 as boolean,
-      isERC721: isERC721 as boolean,
-    };
+    return { provider: "generic", ...interfaces };
   } catch (error) {
     console.error("Error detecting NFT provider:", error);
     // Default to generic provider
@@ -690,10 +300,22 @@ export function validateParameters(
   missingParams: string[];
   errors: string[];
 } {
-  const config = PROVIDER_CONFIGS[contractInfo.provider];
   const missingParams: string[] = [];
   const errors: string[] = [];
 
+  // Registered adapters validate their own parameters
+  const adapter = getMintAdapter(contractInfo.provider);
+  if (adapter) {
+    const result = adapter.validate?.(params, contractInfo) || { missingParams: [], errors: [] };
+    return {
+      isValid: result.missingParams.length === 0 && result.errors.length === 0,
+      missingParams: result.missingParams,
+      errors: result.errors,
+    };
+  }
+
+  const config = PROVIDER_CONFIGS[contractInfo.provider] || PROVIDER_CONFIGS.generic;
+
   // Check required params for the provider
   for (const param of config.requiredParams) {
     if (!params[param as keyof MintParams]) {
@@ -715,29 +337,19 @@ export function validateParameters(
         errors.push(`Invalid instanceId format: ${params.instanceId}. Must be a positive integer.`);
       }
     }
+  }
 
-    if (
-      contractInfo.claim?.merkleRoot &&
-      contractInfo.claim.merkleRoot !==
-        "0x0000000000000000000000000000000000000000000000000000000000000000"
-    ) {
-      errors.push(
-        "This NFT requires a merkle proof for minting - not supported yet",
-      );
+  if (contractInfo.provider === "zora") {
+    if (!params.tokenId) {
+      errors.push("Zora 1155 NFTs require a tokenId. Check the Zora mint page URL (e.g., /collect/base:0x.../1)");
+    }
+    // Set by pricing; the default strategy isn't authorized on every collection
+    if (contractInfo.zoraSale === null) {
+      errors.push("No supported minter is authorized for this Zora token");
     }
   }
 
   if (contractInfo.provider === "thirdweb") {
-    if (
-      contractInfo.claimCondition?.merkleRoot &&
-      contractInfo.claimCondition.merkleRoot !==
-        "0x0000000000000000000000000000000000000000000000000000000000000000"
-    ) {
-      errors.push(
-        "This NFT requires a merkle proof for minting - not supported yet",
-      );
-    }
-
     if (contractInfo.claimCondition?.startTimestamp) {
       const now = Math.floor(Date.now() / 1000);
       if (now < contractInfo.claimCondition.startTimestamp) {
@@ -0,0 +1,57 @@
+import type { MintAdapter, NFTProvider } from "~/lib/types";
+
+const adapters: MintAdapter[] = [];
+
+/**
+ * Register a custom mint adapter. Adapters are consulted before the built-in
+ * providers, highest priority first. Registering an existing name replaces it.
+ *
+ * @example
+ * ```ts
+ * registerMintAdapter({
+ *   name: "brunch-drop",
+ *   priority: 10,
+ *   detect: async (client, params) => params.contractAddress === BRUNCH_DROP,
+ *   fetchPrice: async (client, params) => ({ totalCost: parseEther("0.01") }),
+ *   buildMint: (params, info, price) => ({
+ *     address: params.contractAddress,
+ *     abi: BRUNCH_DROP_ABI,
+ *     functionName: "mint",
+ *     args: [params.recipient, BigInt(params.amount || 1)],
+ *     value: price.totalCost,
+ *   }),
+ * });
+ * ```
+ */
+export function registerMintAdapter(adapter: MintAdapter): () => void {
+  unregisterMintAdapter(adapter.name);
+  adapters.push(adapter);
+  return () => unregisterMintAdapter(adapter.name);
+}
+
+/**
+ * Remove a registered mint adapter by name
+ */
+export function unregisterMintAdapter(name: NFTProvider): void {
+  const index = adapters.findIndex((adapter) => adapter.name === name);
+  if (index !== -1) {
+    adapters.splice(index, 1);
+  }
+}
+
+/**
+ * Registered adapters in priority order (highest first, then registration order)
+ */
+export function getMintAdapters(): MintAdapter[] {
+  return adapters
+    .map((adapter, index) => ({ adapter, index }))
+    .sort((a, b) => (b.adapter.priority ?? 0) - (a.adapter.priority ?? 0) || a.index - b.index)
+    .map(({ adapter }) => adapter);
+}
+
+/**
+ * Find the registered adapter for a provider name
+ */
+export function getMintAdapter(name: NFTProvider | undefined): MintAdapter | undefined {
+  return name ? adapters.find((adapter) => adapter.name === name) : undefined;
+}
@@ -0,0 +1,82 @@
+import { zeroAddress, type PublicClient } from "viem";
+import type { MintParams, NFTContractInfo, SupplyInfo } from "~/lib/types";
+import { batchReadContracts } from "~/lib/chains";
+import { SEADROP_TOKEN_ABI, SUPPLY_ABI, ZORA_1155_ABI } from "~/lib/nft-standards";
+
+// Open editions report uint256/uint32 max (or 0) as their cap
+const MAX_REASONABLE_SUPPLY = BigInt(2 ** 32 - 1);
+
+function toSupplyInfo(minted: number | bigint, max: number | bigint | undefined): SupplyInfo {
+  const cap = max !== undefined && BigInt(max) > BigInt(0) && BigInt(max) < MAX_REASONABLE_SUPPLY
+    ? Number(max)
+    : undefined;
+  return {
+    minted: Number(minted),
+    max: cap,
+    isSoldOut: cap !== undefined && Number(minted) >= cap,
+  };
+}
+
+/**
+ * Read minted / max supply for a drop.
+ * Manifold and thirdweb use the claim state from fetchPriceData; other providers are read on-chain.
+ * Returns null when the contract exposes no supply information.
+ */
+export async function fetchSupply(
+  client: PublicClient,
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): Promise<SupplyInfo | null> {
+  const { claim, claimCondition } = contractInfo;
+
+  if (contractInfo.provider === "manifold" && claim?.total !== undefined) {
+    return toSupplyInfo(claim.total, claim.totalMax);
+  }
+
+  if (contractInfo.provider === "thirdweb" && claimCondition?.supplyClaimed !== undefined) {
+    return toSupplyInfo(claimCondition.supplyClaimed, claimCondition.maxClaimableSupply);
+  }
+
+  try {
+    if (contractInfo.provider === "zora") {
+      const { maxSupply, totalMinted } = await client.readContract({
+        address: params.contractAddress,
+        abi: ZORA_1155_ABI,
+        functionName: "getTokenInfo",
+        args: [BigInt(params.tokenId || "1")],
+      });
+      return toSupplyInfo(totalMinted, maxSupply);
+    }
+
+    if (contractInfo.provider === "opensea") {
+      const [, currentTotalSupply, maxSupply] = await client.readContract({
+        address: params.contractAddress,
+        abi: SEADROP_TOKEN_ABI,
+        functionName: "getMintStats",
+        args: [zeroAddress],
+      });
+      return toSupplyInfo(currentTotalSupply, maxSupply);
+    }
+  } catch (error) {
+    console.warn(`[Supply] Failed to read ${contractInfo.provider} supply:`, error);
+    return null;
+  }
+
+  // Generic ERC721 drops: totalMinted / totalSupply against maxSupply / MAX_SUPPLY
+  const contract = { address: params.contractAddress, abi: SUPPLY_ABI } as const;
+  const [totalMinted, totalSupply, maxSupply, MAX_SUPPLY] = await batchReadContracts(client, [
+    { ...contract, functionName: "totalMinted" },
+    { ...contract, functionName: "totalSupply" },
+    { ...contract, functionName: "maxSupply" },
+    { ...contract, functionName: "MAX_SUPPLY" },
+  ]);
+
+  const minted = [totalMinted, totalSupply].find((r) => r.status === "success");
+  if (!minted || minted.status !== "success") return null;
+
+  const max = [maxSupply, MAX_SUPPLY].find((r) => r.status === "success");
+  return toSupplyInfo(
+    minted.result as bigint,
+    max?.status === "success" ? (max.result as bigint) : undefined,
+  );
+}
@@ -1,6 +1,9 @@
-import type { Address } from "viem";
+import type { Abi, Address, Hex, PublicClient } from "viem";
 
-export type NFTProvider = "manifold" | "opensea" | "zora" | "generic" | "nfts2me" | "thirdweb";
+export type BuiltInNFTProvider = "manifold" | "opensea" | "zora" | "generic" | "nfts2me" | "thirdweb";
+
+// Registered mint adapters can use any provider name
+export type NFTProvider = BuiltInNFTProvider | (string & {});
 
 export interface ProviderConfig {
   name: NFTProvider;
@@ -33,8 +36,21 @@ export interface MintParams {
   amount?: number;
   instanceId?: string;
   tokenId?: string;
+  /** Address the tokens are minted to */
   recipient?: Address;
+  /** Wallet that sends and pays for the mint. Defaults to recipient */
+  account?: Address;
   merkleProof?: string[];
+  allowlistEntry?: AllowlistEntry;
+  mintReferral?: Address;
+}
+
+export interface AllowlistEntry {
+  proof: `0x${string}`[];
+  mintIndex?: number;
+  quantityLimitPerWallet?: bigint;
+  pricePerToken?: bigint;
+  currency?: Address;
 }
 
 export interface NFTContractInfo {
@@ -54,16 +70,127 @@ export interface NFTContractInfo {
     startDate: number;
     endDate: number;
     walletMax: number;
+    total?: number;
+    totalMax?: number;
   };
   claimCondition?: {
     id: number;
     pricePerToken: bigint;
     currency: Address;
     maxClaimableSupply: bigint;
+    supplyClaimed?: bigint;
     merkleRoot: `0x${string}`;
     startTimestamp: number;
     quantityLimitPerWallet: bigint;
   };
+  publicDrop?: {
+    mintPrice: bigint;
+    startTime: number;
+    endTime: number;
+    maxTotalMintableByWallet: number;
+    feeBps: number;
+    restrictFeeRecipients: boolean;
+    feeRecipient: Address;
+  };
+  /** Null once pricing found no supported minter authorized for the token */
+  zoraSale?: {
+    minter: Address;
+    pricePerToken: bigint;
+    mintFee: bigint;
+    saleStart: number;
+    saleEnd: number;
+    maxTokensPerAddress: number;
+    fundsRecipient: Address;
+  } | null;
+}
+
+export interface MintPriceData {
+  mintPrice?: bigint;
+  /** Per-token price to pass to the provider's calculateValue when the quantity changes */
+  unitPrice?: bigint;
+  /** NFTs2Me platform fee per token, included in totalCost */
+  protocolFee?: bigint;
+  erc20Details?: {
+    address: string;
+    symbol: string;
+    decimals: number;
+    allowance?: bigint;
+    balance?: bigint;
+  };
+  totalCost: bigint;
+  claim?: NFTContractInfo["claim"];
+}
+
+export interface WalletMintLimit {
+  /** Max tokens per wallet, undefined when unlimited */
+  limit?: number;
+  /** Tokens the wallet already minted, when the provider exposes it */
+  minted?: number;
+  /** Tokens the wallet can still mint, undefined when unlimited */
+  remaining?: number;
+}
+
+export interface SupplyInfo {
+  minted: number;
+  /** Max supply, undefined for open editions */
+  max?: number;
+  isSoldOut: boolean;
+}
+
+export interface GasEstimate {
+  gasLimit: bigint;
+  /** maxFeePerGas on EIP-1559 chains, gasPrice otherwise */
+  feePerGas: bigint;
+  /** gasLimit * feePerGas in native currency */
+  estimatedCost: bigint;
+}
+
+/**
+ * Line items for the mint sheet; all native amounts cover the full quantity
+ */
+export interface MintCostBreakdown {
+  tokenPrice: bigint;
+  mintFee: bigint;
+  protocolFee: bigint;
+  erc20Amount?: bigint;
+  gas?: GasEstimate;
+}
+
+export interface MintCall {
+  address: Address;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args: readonly unknown[];
+  value: bigint;
+}
+
+export type PermitKind = "eip2612" | "permit2";
+
+/**
+ * Off-chain ERC20 authorization used in place of an approve transaction
+ */
+export interface SignedPermit {
+  kind: PermitKind;
+  token: Address;
+  owner: Address;
+  spender: Address;
+  amount: bigint;
+  deadline: bigint;
+  nonce: bigint;
+  signature: Hex;
+}
+
+export interface MintAdapter {
+  name: NFTProvider;
+  /** Higher priority adapters are consulted first. Defaults to 0 */
+  priority?: number;
+  /** Return contract info (or true) when the contract belongs to this adapter, otherwise null/false */
+  detect: (client: PublicClient, params: MintParams) => Promise<Partial<NFTContractInfo> | boolean | null>;
+  fetchPrice: (client: PublicClient, params: MintParams, contractInfo: NFTContractInfo) => Promise<MintPriceData>;
+  buildMint: (params: MintParams, contractInfo: NFTContractInfo, priceData: MintPriceData) => MintCall;
+  validate?: (params: MintParams, contractInfo: NFTContractInfo) => Pick<ValidationResult, "missingParams" | "errors">;
+  /** Build a mint call whose minter pulls the payment with a signed Permit2 transfer, in place of an ERC20 approval */
+  buildPermit2Mint?: (params: MintParams, contractInfo: NFTContractInfo, priceData: MintPriceData, permit: SignedPermit) => MintCall;
 }
 
 export interface ValidationResult {
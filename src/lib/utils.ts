@@ -3,4 +3,24 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+/**
+ * JSON.stringify that keeps bigints as { __bigint: "<decimal>" }
+ */
+export function stringifyWithBigInt(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? { __bigint: v.toString() } : v,
+  );
+}
+
+/**
+ * JSON.parse counterpart of stringifyWithBigInt
+ */
+export function parseWithBigInt<T = unknown>(raw: string): T {
+  return JSON.parse(raw, (_, v) =>
+    v && typeof v === "object" && typeof v.__bigint === "string"
+      ? BigInt(v.__bigint)
+      : v,
+  );
+}
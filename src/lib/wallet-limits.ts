@@ -0,0 +1,126 @@
+import type { PublicClient } from "viem";
+import type { MintParams, NFTContractInfo, WalletMintLimit } from "~/lib/types";
+import {
+  MANIFOLD_WALLET_MINTS_ABI,
+  SEADROP_TOKEN_ABI,
+  THIRDWEB_ERC1155_EXTENSION_ABI,
+  THIRDWEB_OPENEDITONERC721_ABI,
+  ZORA_FIXED_PRICE_STRATEGY_ABI,
+} from "~/lib/nft-standards";
+
+/**
+ * Per-wallet limit from the claim data already fetched into contractInfo.
+ * 0 (Manifold, Zora, SeaDrop) and uint256 max (thirdweb) mean unlimited.
+ */
+export function getWalletLimit(
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): number | undefined {
+  const toLimit = (value: number | bigint | undefined) =>
+    value && value < BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : undefined;
+
+  switch (contractInfo.provider) {
+    case "manifold":
+      return toLimit(contractInfo.claim?.walletMax);
+    case "thirdweb":
+      // Allowlist entries can override the claim condition limit
+      return toLimit(
+        params.allowlistEntry?.quantityLimitPerWallet ??
+          contractInfo.claimCondition?.quantityLimitPerWallet,
+      );
+    case "zora":
+      return toLimit(contractInfo.zoraSale?.maxTokensPerAddress);
+    case "opensea":
+      return toLimit(contractInfo.publicDrop?.maxTotalMintableByWallet);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read how many tokens the wallet already minted, where the provider tracks it on-chain
+ */
+async function fetchMintedByWallet(
+  client: PublicClient,
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): Promise<number | undefined> {
+  const wallet = params.recipient;
+  if (!wallet) return undefined;
+
+  switch (contractInfo.provider) {
+    case "manifold": {
+      if (!contractInfo.extensionAddress || !params.instanceId) return undefined;
+      const minted = await client.readContract({
+        address: contractInfo.extensionAddress,
+        abi: MANIFOLD_WALLET_MINTS_ABI,
+        functionName: "getTotalMints",
+        args: [wallet, params.contractAddress, BigInt(params.instanceId)],
+      });
+      return Number(minted);
+    }
+    case "thirdweb": {
+      const conditionId = contractInfo.claimCondition?.id;
+      if (conditionId === undefined) return undefined;
+      const minted = contractInfo.isERC1155
+        ? await client.readContract({
+            address: params.contractAddress,
+            abi: THIRDWEB_ERC1155_EXTENSION_ABI,
+            functionName: "getSupplyClaimedByWallet",
+            args: [BigInt(params.tokenId || "0"), BigInt(conditionId), wallet],
+          })
+        : await client.readContract({
+            address: params.contractAddress,
+            abi: THIRDWEB_OPENEDITONERC721_ABI,
+            functionName: "getSupplyClaimedByWallet",
+            args: [BigInt(conditionId), wallet],
+          });
+      return Number(minted);
+    }
+    case "zora": {
+      if (!contractInfo.zoraSale) return undefined;
+      const minted = await client.readContract({
+        address: contractInfo.zoraSale.minter,
+        abi: ZORA_FIXED_PRICE_STRATEGY_ABI,
+        functionName: "getMintedPerWallet",
+        args: [params.contractAddress, BigInt(params.tokenId || "1"), wallet],
+      });
+      return Number(minted);
+    }
+    case "opensea": {
+      const [minterNumMinted] = await client.readContract({
+        address: params.contractAddress,
+        abi: SEADROP_TOKEN_ABI,
+        functionName: "getMintStats",
+        args: [wallet],
+      });
+      return Number(minterNumMinted);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve the remaining per-wallet allowance for params.recipient.
+ * Call after fetchPriceData so the claim/sale state is populated.
+ */
+export async function fetchWalletMintLimit(
+  client: PublicClient,
+  params: MintParams,
+  contractInfo: NFTContractInfo,
+): Promise<WalletMintLimit> {
+  const limit = getWalletLimit(params, contractInfo);
+  if (limit === undefined) return {};
+
+  const minted = await fetchMintedByWallet(client, params, contractInfo).catch((error) => {
+    console.warn("[Wallet Limit] Failed to read minted count:", error);
+    return undefined;
+  });
+
+  return {
+    limit,
+    minted,
+    remaining: Math.max(limit - (minted ?? 0), 0),
+  };
+}